@@ -156,11 +156,57 @@ export const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({
               GPU Time
             </p>
             <p className="text-2xl font-bold">{metrics.gpuTime.toFixed(2)}</p>
-            <p className="text-xs text-muted-foreground mt-1">ms (GPU)</p>
+            <p
+              className="text-xs text-muted-foreground mt-1"
+              title={
+                metrics.gpuDiscarded
+                  ? `${metrics.gpuDiscarded} samples discarded (disjoint or outlier)`
+                  : undefined
+              }
+            >
+              ms (GPU)
+              {metrics.gpuCoverage !== undefined &&
+                ` · ${Math.round(metrics.gpuCoverage * 100)}% of frames sampled`}
+            </p>
+          </Card>
+        )}
+
+        {metrics.drawCost !== undefined && (
+          <Card className="p-4">
+            <p className="text-xs font-medium text-muted-foreground mb-2">
+              Per Draw
+            </p>
+            <p className="text-2xl font-bold">{metrics.drawCost.toFixed(3)}</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              ms (×{metrics.drawMultiplier} draws
+              {metrics.gpuTime === undefined && ", from frame time"})
+            </p>
           </Card>
         )}
       </div>
 
+      {/* Per-pass GPU Timings (multipass shaders) */}
+      {metrics.passTimings && metrics.passTimings.length > 0 && (
+        <Card className="p-4">
+          <p className="text-xs font-medium text-muted-foreground mb-3">
+            GPU Time per Pass
+          </p>
+          <div className="space-y-2">
+            {metrics.passTimings.map((pass) => (
+              <div
+                key={pass.name}
+                className="flex items-center justify-between"
+              >
+                <span className="text-sm">{pass.name}</span>
+                <span className="text-sm font-semibold tabular-nums">
+                  {pass.gpuTime.toFixed(2)} ms
+                </span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* FPS Chart */}
       {showGraph && chartData.length > 0 && (
         <Card className="p-6">
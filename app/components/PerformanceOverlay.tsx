@@ -39,6 +39,8 @@ export const PerformanceOverlay: React.FC<PerformanceOverlayProps> = ({
         <div className="flex items-center justify-between">
           <Badge variant="outline" className="font-mono text-xs">
             {metrics.resolution.width}×{metrics.resolution.height}
+            {metrics.renderScale !== 1 &&
+              ` @ ${metrics.renderResolution.width}×${metrics.renderResolution.height}`}
           </Badge>
           <span className="text-xs text-muted-foreground">
             {pixelsPerFrame}M px/frame
@@ -23,6 +23,10 @@ interface BenchmarkEntry {
   resolution: string;
   width: number;
   height: number;
+  // Internal size and scale; pixelCount is the pixels actually shaded
+  renderWidth: number;
+  renderHeight: number;
+  renderScale: number;
   pixelCount: number;
   fps: number;
   avgFrameTime: number;
@@ -40,7 +44,14 @@ export const ResolutionBenchmark: React.FC<ResolutionBenchmarkProps> = ({
     // Round to avoid floating point issues
     const width = Math.round(currentMetrics.resolution.width);
     const height = Math.round(currentMetrics.resolution.height);
-    const key = `${width}x${height}`;
+    const renderWidth = Math.round(currentMetrics.renderResolution.width);
+    const renderHeight = Math.round(currentMetrics.renderResolution.height);
+    const renderScale = currentMetrics.renderScale;
+    // Same display size at different scales gets one entry per scale
+    const key =
+      renderScale === 1
+        ? `${width}x${height}`
+        : `${width}x${height} @${renderScale}x`;
 
     setBenchmarks((prev) => {
       const existingIndex = prev.findIndex((b) => b.resolution === key);
@@ -49,7 +60,10 @@ export const ResolutionBenchmark: React.FC<ResolutionBenchmarkProps> = ({
         resolution: key,
         width,
         height,
-        pixelCount: width * height,
+        renderWidth,
+        renderHeight,
+        renderScale,
+        pixelCount: renderWidth * renderHeight,
         fps: currentMetrics.fps,
         avgFrameTime: currentMetrics.avgFrameTime,
         timestamp: Date.now(),
@@ -63,7 +77,11 @@ export const ResolutionBenchmark: React.FC<ResolutionBenchmarkProps> = ({
         return [...prev, newEntry];
       }
     });
-  }, [currentMetrics?.resolution.width, currentMetrics?.resolution.height]);
+  }, [
+    currentMetrics?.resolution.width,
+    currentMetrics?.resolution.height,
+    currentMetrics?.renderScale,
+  ]);
 
   const calculateEfficiency = (entry: BenchmarkEntry) => {
     // Megapixels per second per FPS (normalization metric)
@@ -87,7 +105,7 @@ export const ResolutionBenchmark: React.FC<ResolutionBenchmarkProps> = ({
       <Card className="p-6">
         <div className="flex items-center gap-2 mb-4">
           <TrendingUp className="w-5 h-5 text-primary" />
-          <h3 className="text-lg font-semibold">FPS by Resolution</h3>
+          <h3 className="text-lg font-semibold">FPS by Resolution and Scale</h3>
         </div>
         <ResponsiveContainer width="100%" height={200}>
           <BarChart data={chartData}>
@@ -130,6 +148,9 @@ export const ResolutionBenchmark: React.FC<ResolutionBenchmarkProps> = ({
                 <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-muted-foreground">
                   Resolution
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                  Rendered
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-muted-foreground">
                   Pixels
                 </th>
@@ -146,7 +167,9 @@ export const ResolutionBenchmark: React.FC<ResolutionBenchmarkProps> = ({
             </thead>
             <tbody>
               {sortedBenchmarks.map((entry) => {
-                const isActive = currentMetrics?.resolution.width === entry.width;
+                const isActive =
+                  currentMetrics?.resolution.width === entry.width &&
+                  currentMetrics?.renderScale === entry.renderScale;
                 return (
                   <tr
                     key={entry.resolution}
@@ -166,6 +189,9 @@ export const ResolutionBenchmark: React.FC<ResolutionBenchmarkProps> = ({
                         )}
                       </div>
                     </td>
+                    <td className="px-4 py-3 font-mono text-sm text-muted-foreground">
+                      {entry.renderWidth}x{entry.renderHeight}
+                    </td>
                     <td className="px-4 py-3 font-mono text-sm text-muted-foreground">
                       {(entry.pixelCount / 1_000_000).toFixed(2)}M
                     </td>
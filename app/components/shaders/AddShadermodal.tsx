@@ -1,8 +1,15 @@
 "use client";
 
-import React, { useState, useCallback, useEffect } from "react";
-import { ShaderDefinition } from "./ShaderViewer";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
+import { ShaderChannelInput, ShaderDefinition } from "./ShaderViewer";
+import { ChannelInputsEditor } from "./ChannelInputsEditor";
+import { ShaderCodeEditor } from "./ShaderCodeEditor";
+import { ShaderCostBreakdown } from "./ShaderCostBreakdown";
+import { GlslCostEstimator } from "../../utils/GlslCostEstimator";
+import { GlslLintRule, LINT_RULES } from "../../utils/GlslLinter";
 import { ShaderManager, ShaderValidationResult } from "../../utils/ShaderManager";
+import { SHADER_DIALECTS, ShaderDialect } from "../../utils/ShaderCompact";
+import { IsfConverter } from "../../utils/IsfConverter";
 import { ShaderCanvas, PerformanceMetrics } from "./ShaderCanvas";
 import {
   Dialog,
@@ -18,13 +25,23 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertCircle,
   CheckCircle,
   FileCode,
+  Image as ImageIcon,
   Loader2,
   Play,
   ClipboardCopy,
+  X,
 } from "lucide-react";
 
 interface AddShaderModalProps {
@@ -76,7 +93,21 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
   const [fragmentShader, setFragmentShader] = useState(
     editShader?.fragmentShader || ""
   );
+  const [common, setCommon] = useState(editShader?.common || "");
+  const [editorTab, setEditorTab] = useState<"image" | "common">("image");
+  const [dialect, setDialect] = useState<ShaderDialect>(
+    editShader?.dialect || "shadertoy"
+  );
+  const [channels, setChannels] = useState<(ShaderChannelInput | null)[]>(
+    editShader?.channels || []
+  );
   const [tags, setTags] = useState(editShader?.tags?.join(", ") || "");
+  const [thumbnailTime, setThumbnailTime] = useState(
+    editShader?.thumbnailTime?.toString() ?? ""
+  );
+  const [suppressedLintRules, setSuppressedLintRules] = useState<string[]>(
+    editShader?.suppressedLintRules || []
+  );
   const [validation, setValidation] = useState<ShaderValidationResult | null>(
     null
   );
@@ -93,12 +124,52 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
       setAuthor(editShader?.author || "");
       setDescription(editShader?.description || "");
       setFragmentShader(editShader?.fragmentShader || "");
+      setCommon(editShader?.common || "");
+      setEditorTab("image");
+      setDialect(editShader?.dialect || "shadertoy");
+      setChannels(editShader?.channels || []);
       setTags(editShader?.tags?.join(", ") || "");
+      setThumbnailTime(editShader?.thumbnailTime?.toString() ?? "");
+      setSuppressedLintRules(editShader?.suppressedLintRules || []);
       setValidation(null);
       setShowPreview(false);
     }
   }, [isOpen, editShader]);
 
+  // Compile errors and lint warnings located in the original source, split per editor tab
+  const imageDiagnostics = useMemo(
+    () => validation?.diagnostics?.filter((d) => d.section === "pass") ?? [],
+    [validation]
+  );
+  const commonDiagnostics = useMemo(
+    () => validation?.diagnostics?.filter((d) => d.section === "common") ?? [],
+    [validation]
+  );
+
+  // Static cost estimate, updated as the code is edited
+  const costEstimate = useMemo(
+    () =>
+      fragmentShader.trim()
+        ? GlslCostEstimator.estimateShader({
+            fragmentShader,
+            common,
+            buffers: editShader?.buffers,
+          })
+        : null,
+    [fragmentShader, common, editShader]
+  );
+
+  // ISF inputs come from the JSON header, other dialects keep stored ones
+  const inputs = useMemo(() => {
+    if (dialect !== "isf") return editShader?.inputs;
+    try {
+      const header = IsfConverter.parseHeader(fragmentShader);
+      return header ? IsfConverter.inputs(header) : undefined;
+    } catch {
+      return undefined;
+    }
+  }, [dialect, fragmentShader, editShader]);
+
   const handleValidate = useCallback(async () => {
     if (!fragmentShader.trim()) {
       setValidation({
@@ -110,7 +181,12 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
 
     setIsValidating(true);
     try {
-      const result = await ShaderManager.validateShader(fragmentShader);
+      const result = await ShaderManager.validateShader(
+        fragmentShader,
+        common,
+        suppressedLintRules,
+        dialect
+      );
       setValidation(result);
       if (result.valid) {
         setShowPreview(true);
@@ -123,7 +199,23 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
     } finally {
       setIsValidating(false);
     }
-  }, [fragmentShader]);
+  }, [fragmentShader, common, suppressedLintRules, dialect]);
+
+  const suppressLintRule = (rule: string) => {
+    setSuppressedLintRules((prev) =>
+      prev.includes(rule) ? prev : [...prev, rule]
+    );
+    // Drop the rule's warnings from the current result instead of revalidating
+    setValidation((prev) =>
+      prev
+        ? {
+            ...prev,
+            warnings: prev.warnings?.filter((w) => !w.includes(`[${rule}]`)),
+            diagnostics: prev.diagnostics?.filter((d) => d.rule !== rule),
+          }
+        : prev
+    );
+  };
 
   const handleSave = async () => {
     if (!name.trim()) {
@@ -139,7 +231,12 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
     // Validate before saving
     setIsSaving(true);
     try {
-      const result = await ShaderManager.validateShader(fragmentShader);
+      const result = await ShaderManager.validateShader(
+        fragmentShader,
+        common,
+        suppressedLintRules,
+        dialect
+      );
       if (!result.valid) {
         alert(`Shader validation failed: ${result.error}`);
         setValidation(result);
@@ -152,6 +249,18 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
         author: author.trim() || undefined,
         description: description.trim() || undefined,
         fragmentShader: fragmentShader.trim(),
+        common: common.trim() || undefined,
+        channels: channels.length > 0 ? channels : undefined,
+        buffers: editShader?.buffers,
+        dialect: dialect !== "shadertoy" ? dialect : undefined,
+        inputs: inputs?.length ? inputs : undefined,
+        thumbnailTime:
+          thumbnailTime.trim() && Number(thumbnailTime) >= 0
+            ? Number(thumbnailTime)
+            : undefined,
+        license: editShader?.license,
+        suppressedLintRules:
+          suppressedLintRules.length > 0 ? suppressedLintRules : undefined,
         tags: tags
           .split(",")
           .map((t) => t.trim())
@@ -226,14 +335,29 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="tags">Tags (comma-separated)</Label>
-            <Input
-              id="tags"
-              value={tags}
-              onChange={(e) => setTags(e.target.value)}
-              placeholder="fractal, 3d, colorful"
-            />
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_180px] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tags">Tags (comma-separated)</Label>
+              <Input
+                id="tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="fractal, 3d, colorful"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="thumbnailTime">Thumbnail time (s)</Label>
+              <Input
+                id="thumbnailTime"
+                type="number"
+                min={0}
+                step={0.1}
+                value={thumbnailTime}
+                onChange={(e) => setThumbnailTime(e.target.value)}
+                placeholder="1"
+              />
+            </div>
           </div>
 
           <Separator />
@@ -246,6 +370,25 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
                 Fragment Shader Code <span className="text-destructive">*</span>
               </Label>
               <div className="flex gap-2 flex-wrap">
+                <Select
+                  value={dialect}
+                  onValueChange={(v) => {
+                    setDialect(v as ShaderDialect);
+                    setValidation(null);
+                    setShowPreview(false);
+                  }}
+                >
+                  <SelectTrigger size="sm" className="w-[200px]" title="Input dialect">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SHADER_DIALECTS) as ShaderDialect[]).map((d) => (
+                      <SelectItem key={d} value={d}>
+                        {SHADER_DIALECTS[d]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button
                   type="button"
                   variant="outline"
@@ -286,26 +429,156 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
               </div>
             </div>
 
-            <Textarea
-              id="fragmentShader"
-              value={fragmentShader}
-              onChange={(e) => {
-                setFragmentShader(e.target.value);
-                setValidation(null);
-                setShowPreview(false);
-              }}
-              placeholder="Paste your Shadertoy fragment shader code here..."
-              rows={20}
-              className="font-mono text-sm resize-none overflow-y-auto max-h-[500px]"
-              spellCheck={false}
-            />
+            <Tabs
+              value={editorTab}
+              onValueChange={(v) => setEditorTab(v as "image" | "common")}
+            >
+              <TabsList>
+                <TabsTrigger value="image">
+                  Image
+                  {imageDiagnostics.some((d) => d.severity === "error") && (
+                    <AlertCircle className="w-3 h-3 ml-1 text-destructive" />
+                  )}
+                </TabsTrigger>
+                <TabsTrigger value="common">
+                  Common
+                  {(validation?.commonError ||
+                    commonDiagnostics.some((d) => d.severity === "error")) && (
+                    <AlertCircle className="w-3 h-3 ml-1 text-destructive" />
+                  )}
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
 
+            {editorTab === "image" ? (
+              <ShaderCodeEditor
+                id="fragmentShader"
+                value={fragmentShader}
+                onChange={(value) => {
+                  setFragmentShader(value);
+                  setValidation(null);
+                  setShowPreview(false);
+                }}
+                placeholder="Paste your Shadertoy fragment shader code here..."
+                diagnostics={imageDiagnostics}
+              />
+            ) : (
+              <ShaderCodeEditor
+                id="commonShader"
+                value={common}
+                onChange={(value) => {
+                  setCommon(value);
+                  setValidation(null);
+                  setShowPreview(false);
+                }}
+                placeholder="Optional helpers shared by every pass (Shadertoy Common tab)..."
+                diagnostics={commonDiagnostics}
+              />
+            )}
+
+            {dialect === "glslcanvas" ? (
+              <p className="text-xs text-muted-foreground">
+                Paste code from glslCanvas or The Book of Shaders. The Image
+                tab must include{" "}
+                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  void main()
+                </code>
+                ;{" "}
+                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  u_time
+                </code>
+                ,{" "}
+                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  u_resolution
+                </code>
+                ,{" "}
+                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  u_mouse
+                </code>{" "}
+                and{" "}
+                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  u_tex0..3
+                </code>{" "}
+                are supplied by the harness.
+              </p>
+            ) : dialect === "isf" ? (
+              <p className="text-xs text-muted-foreground">
+                Paste an ISF{" "}
+                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  .fs
+                </code>{" "}
+                shader with its JSON header comment and{" "}
+                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  void main()
+                </code>
+                . Header INPUTS become uniforms with controls in the viewer;
+                image inputs map to iChannel0..3.
+              </p>
+            ) : dialect === "raw" ? (
+              <p className="text-xs text-muted-foreground">
+                Paste a complete{" "}
+                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  #version 300 es
+                </code>{" "}
+                fragment shader. It is compiled as-is, Common code is not
+                injected, and any Shadertoy or glslCanvas uniforms it declares
+                are fed.
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Paste code from Shadertoy. The Image tab must include a{" "}
+                <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  mainImage()
+                </code>{" "}
+                function; Common code is prepended to every pass. GLSL ES 1.0
+                shaders (<code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  gl_FragColor
+                </code>
+                , <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
+                  void main()
+                </code>
+                ) are upgraded automatically.
+              </p>
+            )}
+
+            {suppressedLintRules.length > 0 && (
+              <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                Suppressed lint rules:
+                {suppressedLintRules.map((rule) => (
+                  <Badge
+                    key={rule}
+                    variant="outline"
+                    className="font-mono text-xs cursor-pointer"
+                    title={LINT_RULES[rule as GlslLintRule] ?? rule}
+                    onClick={() =>
+                      setSuppressedLintRules((prev) =>
+                        prev.filter((r) => r !== rule)
+                      )
+                    }
+                  >
+                    {rule}
+                    <X className="w-3 h-3 ml-1" />
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {costEstimate && <ShaderCostBreakdown estimate={costEstimate} />}
+
+          {/* Channel Inputs */}
+          <div className="space-y-3">
+            <Label className="text-base">
+              <ImageIcon className="w-4 h-4 mr-1 inline" />
+              Channel Inputs
+            </Label>
+            <ChannelInputsEditor channels={channels} onChange={setChannels} />
             <p className="text-xs text-muted-foreground">
-              Paste code from Shadertoy. Must include a{" "}
+              Bind PNG/JPG images to{" "}
               <code className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono">
-                mainImage()
-              </code>{" "}
-              function.
+                iChannel0..3
+              </code>
+              . Images are stored with the shader.
             </p>
           </div>
 
@@ -332,7 +605,17 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
                     </>
                   )}
                 </div>
-                {validation.error && (
+                {validation.commonError && (
+                  <div className="pl-7 space-y-2">
+                    <p className="text-sm font-semibold text-destructive">
+                      Common Tab Error:
+                    </p>
+                    <pre className="text-xs font-mono text-destructive bg-destructive/5 p-3 rounded border border-destructive/20 overflow-x-auto">
+                      {validation.commonError}
+                    </pre>
+                  </div>
+                )}
+                {validation.error && !validation.commonError && (
                   <div className="pl-7 space-y-2">
                     <p className="text-sm font-semibold text-destructive">
                       Compilation Error:
@@ -345,15 +628,51 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
                     </p>
                   </div>
                 )}
+                {validation.upgradedSource && (
+                  <div className="pl-7 flex items-center gap-2 flex-wrap">
+                    <p className="text-sm text-muted-foreground">
+                      Upgraded from GLSL ES 1.0 ({validation.upgradeChanges?.length ?? 0}{" "}
+                      changes listed below).
+                    </p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setFragmentShader(validation.upgradedSource!);
+                        setValidation(null);
+                        setShowPreview(false);
+                      }}
+                    >
+                      Apply to editor
+                    </Button>
+                  </div>
+                )}
                 {validation.warnings && validation.warnings.length > 0 && (
                   <div className="pl-7 space-y-1">
                     <p className="text-sm font-semibold text-yellow-600">
                       Warnings:
                     </p>
                     <ul className="list-disc list-inside text-sm text-yellow-600 space-y-1">
-                      {validation.warnings.map((warning, i) => (
-                        <li key={i}>{warning}</li>
-                      ))}
+                      {validation.warnings.map((warning, i) => {
+                        const rule = warning.match(/\[([a-z0-9-]+)\]/)?.[1];
+                        return (
+                          <li key={i}>
+                            {warning}
+                            {rule && (
+                              <Button
+                                type="button"
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0 ml-2 text-xs"
+                                onClick={() => suppressLintRule(rule)}
+                              >
+                                Suppress
+                              </Button>
+                            )}
+                          </li>
+                        );
+                      })}
                     </ul>
                   </div>
                 )}
@@ -386,6 +705,11 @@ export const AddShaderModal: React.FC<AddShaderModalProps> = ({
                 <div className="w-full" style={{ maxWidth: '100%' }}>
                   <ShaderCanvas
                     fragmentShader={fragmentShader}
+                    common={common}
+                    channels={channels}
+                    buffers={editShader?.buffers}
+                    dialect={dialect}
+                    inputs={inputs}
                     width={600}
                     height={400}
                     onPerformanceUpdate={handlePreviewMetrics}
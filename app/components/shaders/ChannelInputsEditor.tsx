@@ -0,0 +1,214 @@
+"use client";
+
+import React from "react";
+import {
+  ShaderChannelInput,
+  ShaderSamplerSettings,
+} from "./ShaderViewer";
+import {
+  DEFAULT_BUFFER_SAMPLER,
+  DEFAULT_TEXTURE_SAMPLER,
+} from "../../utils/ShaderRenderer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ImagePlus, Layers, X } from "lucide-react";
+
+interface ChannelInputsEditorProps {
+  channels: (ShaderChannelInput | null)[];
+  onChange: (channels: (ShaderChannelInput | null)[]) => void;
+}
+
+const CHANNEL_COUNT = 4;
+
+const samplerFor = (input: ShaderChannelInput): ShaderSamplerSettings =>
+  input.sampler ??
+  (input.type === "buffer" ? DEFAULT_BUFFER_SAMPLER : DEFAULT_TEXTURE_SAMPLER);
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const ChannelInputsEditor: React.FC<ChannelInputsEditorProps> = ({
+  channels,
+  onChange,
+}) => {
+  const setChannel = (index: number, input: ShaderChannelInput | null) => {
+    const next = Array.from(
+      { length: CHANNEL_COUNT },
+      (_, i) => channels[i] ?? null
+    );
+    next[index] = input;
+
+    // Trim trailing empty slots so unbound shaders store no channels
+    while (next.length > 0 && next[next.length - 1] === null) next.pop();
+    onChange(next);
+  };
+
+  const updateSampler = (
+    index: number,
+    updates: Partial<ShaderSamplerSettings>
+  ) => {
+    const input = channels[index];
+    if (!input) return;
+
+    setChannel(index, {
+      ...input,
+      sampler: { ...samplerFor(input), ...updates },
+    });
+  };
+
+  const pickImage = (index: number) => {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = "image/png,image/jpeg";
+
+    fileInput.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const dataUrl = await readFileAsDataUrl(file);
+        setChannel(index, {
+          type: "texture",
+          name: file.name,
+          dataUrl,
+          sampler: DEFAULT_TEXTURE_SAMPLER,
+        });
+      } catch (error) {
+        alert(
+          `Failed to load image: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    };
+
+    fileInput.click();
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {Array.from({ length: CHANNEL_COUNT }, (_, index) => {
+        const input = channels[index] ?? null;
+        const sampler = input ? samplerFor(input) : DEFAULT_TEXTURE_SAMPLER;
+
+        return (
+          <div key={index} className="rounded-lg border p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <Badge variant="outline" className="font-mono text-xs">
+                  iChannel{index}
+                </Badge>
+                {input?.type === "texture" && (
+                  <span className="text-xs text-muted-foreground truncate">
+                    {input.name}
+                  </span>
+                )}
+                {input?.type === "buffer" && (
+                  <span className="text-xs text-muted-foreground flex items-center">
+                    <Layers className="w-3 h-3 mr-1" />
+                    Buffer {input.buffer}
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => pickImage(index)}
+                >
+                  <ImagePlus className="w-4 h-4" />
+                </Button>
+                {input && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setChannel(index, null)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {input?.type === "texture" && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={input.dataUrl}
+                alt={input.name}
+                className="h-16 w-full object-cover rounded"
+              />
+            )}
+
+            {input && (
+              <div className="grid grid-cols-2 gap-2 items-center">
+                <Select
+                  value={sampler.filter}
+                  onValueChange={(v) =>
+                    updateSampler(index, {
+                      filter: v as ShaderSamplerSettings["filter"],
+                    })
+                  }
+                >
+                  <SelectTrigger size="sm" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="nearest">Nearest</SelectItem>
+                    <SelectItem value="linear">Linear</SelectItem>
+                    <SelectItem value="mipmap">Mipmap</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={sampler.wrap}
+                  onValueChange={(v) =>
+                    updateSampler(index, {
+                      wrap: v as ShaderSamplerSettings["wrap"],
+                    })
+                  }
+                >
+                  <SelectTrigger size="sm" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="clamp">Clamp</SelectItem>
+                    <SelectItem value="repeat">Repeat</SelectItem>
+                  </SelectContent>
+                </Select>
+                {input.type === "texture" && (
+                  <div className="flex items-center gap-2 col-span-2">
+                    <Switch
+                      id={`vflip-${index}`}
+                      checked={sampler.vflip}
+                      onCheckedChange={(checked) =>
+                        updateSampler(index, { vflip: checked })
+                      }
+                    />
+                    <Label htmlFor={`vflip-${index}`} className="text-xs">
+                      Flip vertically
+                    </Label>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
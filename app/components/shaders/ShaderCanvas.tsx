@@ -1,16 +1,78 @@
 "use client";
 
 import React, { useEffect, useRef, useCallback } from "react";
-import { ShaderCompat } from "../../utils/ShaderCompact";
+import { ShaderRenderer, UpscaleFilter } from "../../utils/ShaderRenderer";
+import { RendererPool } from "../../utils/RendererPool";
+import { FrameStats } from "../../utils/FrameStats";
+import { StressController, StressMode } from "../../utils/StressController";
+import { PlaybackClock, PlaybackTransport } from "../../utils/PlaybackClock";
+import {
+  MouseRecorder,
+  MouseTrajectory,
+  PointerAction,
+  ShadertoyMouse,
+} from "../../utils/ShadertoyMouse";
+import type {
+  RenderWorkerMessage,
+  RenderWorkerRequest,
+} from "../../utils/ShaderRenderWorker";
+import { ShaderDialect } from "../../utils/ShaderCompact";
+import {
+  DEFAULT_DETERMINISTIC_SETTINGS,
+  DeterministicSettings,
+} from "../../utils/DeterministicClock";
+import {
+  ShaderBufferPass,
+  ShaderChannelInput,
+  ShaderInput,
+  ShaderInputValue,
+} from "./ShaderViewer";
 
 interface ShaderCanvasProps {
   fragmentShader: string;
+  common?: string;
+  channels?: (ShaderChannelInput | null)[];
+  buffers?: ShaderBufferPass[];
+  dialect?: ShaderDialect;
+  inputs?: ShaderInput[];
+  // Current control values; changing them doesn't recompile
+  inputValues?: Record<string, ShaderInputValue>;
   width?: number;
   height?: number;
   onPerformanceUpdate?: (metrics: PerformanceMetrics) => void;
   onResize?: (resizeFn: (w: number, h: number) => void) => void;
+  // Controls for uniforms the shader declares itself, reported after each compile
+  onInputsDetected?: (inputs: ShaderInput[]) => void;
+  // Fixed-timestep clock: one frame per display refresh, iTime and iDate no longer follow the wall clock
+  deterministic?: DeterministicSettings;
+  // Exposes a function rendering exactly frame N and returning its RGBA pixels
+  onRenderFrame?: (renderFrameFn: (frame: number) => Uint8Array | null) => void;
+  // Fraction of the canvas size the shader renders at, upscaled with upscaleFilter
+  renderScale?: number;
+  upscaleFilter?: UpscaleFilter;
+  // Reported when the WebGL context is lost or restored
+  onContextEvent?: (event: ContextEvent) => void;
+  // Debug: lose the context through WEBGL_lose_context while true, restore it when false again
+  forceContextLoss?: boolean;
+  // Render on the shared RendererPool context and copy frames to this canvas
+  pooled?: boolean;
+  // Run the render loop in a worker on an OffscreenCanvas; onRenderFrame is unavailable
+  offscreen?: boolean;
+  // Draw every pass N times per frame, or "auto" to raise N until the frame budget is hit
+  stress?: StressMode;
+  // Transport: paused holds iTime, speed scales its rate, timeOffset is added to it
   paused?: boolean;
-  pausedTime?: number;
+  speed?: number;
+  timeOffset?: number;
+  // Exposes seeking and frame stepping of the playback clock
+  onTransport?: (transport: PlaybackTransport) => void;
+  // Timeline position in seconds (offset excluded), with each metrics update and after a seek or step
+  onTimeUpdate?: (time: number) => void;
+  // Replay this pointer trajectory as iMouse instead of live input
+  mouseReplay?: MouseTrajectory;
+  // Record pointer input while true; the trajectory is reported once it turns false
+  recordMouse?: boolean;
+  onMouseRecorded?: (trajectory: MouseTrajectory) => void;
   className?: string;
 }
 
@@ -22,49 +84,266 @@ export interface PerformanceMetrics {
   maxFrameTime: number;
   droppedFrames: number;
   totalFrames: number;
+  // Median over sampled frames; see gpuCoverage for how many frames that is
   gpuTime?: number;
+  // Share of rendered frames with a GPU sample (0–1), when timer queries exist
+  gpuCoverage?: number;
+  // Samples dropped after disjoint events or as outliers
+  gpuDiscarded?: number;
+  passTimings?: PassTiming[];
+  // Canvas (output) size
   resolution: { width: number; height: number };
+  // Size the shader renders at before upscaling
+  renderResolution: { width: number; height: number };
+  renderScale: number;
+  // Pixels shaded per frame, at the render resolution
   pixelCount: number;
+  // Context losses and restorations since the shader started
+  contextEvents?: ContextEvent[];
+  // Thread the render loop ran on
+  renderThread?: RenderThread;
+  // Stress mode: draws per pass per frame, and ms per draw derived from it
+  drawMultiplier?: number;
+  drawCost?: number;
+  // iTime of the latest frame, offset included
+  iTime?: number;
 }
 
-interface ShaderUniforms {
-  iResolution: WebGLUniformLocation | null;
-  iTime: WebGLUniformLocation | null;
-  iTimeDelta: WebGLUniformLocation | null;
-  iFrame: WebGLUniformLocation | null;
-  iMouse: WebGLUniformLocation | null;
-  iDate: WebGLUniformLocation | null;
+export type RenderThread = "main" | "worker";
+
+export interface ContextEvent {
+  type: "lost" | "restored";
+  timestamp: number;
+  // Frames rendered before the event
+  frame: number;
+}
+
+export interface PassTiming {
+  name: string;
+  gpuTime: number;
 }
 
+// Pointer position in canvas pixels with y up, as iMouse expects
+const canvasPointer = (
+  canvas: HTMLCanvasElement,
+  e: MouseEvent
+): [number, number] => {
+  const rect = canvas.getBoundingClientRect();
+  return [
+    ((e.clientX - rect.left) * canvas.width) / rect.width,
+    ((rect.bottom - e.clientY) * canvas.height) / rect.height,
+  ];
+};
+
+export const supportsOffscreenRendering = (): boolean =>
+  typeof HTMLCanvasElement !== "undefined" &&
+  "transferControlToOffscreen" in HTMLCanvasElement.prototype;
+
 export const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
   fragmentShader,
+  common,
+  channels,
+  buffers,
+  dialect,
+  inputs,
+  inputValues,
   width = 800,
   height = 600,
   onPerformanceUpdate,
   onResize,
+  onInputsDetected,
+  deterministic,
+  onRenderFrame,
+  renderScale = 1,
+  upscaleFilter = "linear",
+  onContextEvent,
+  forceContextLoss = false,
+  pooled = false,
+  offscreen = false,
+  stress,
   paused = false,
-  pausedTime = 0,
+  speed = 1,
+  timeOffset = 0,
+  onTransport,
+  onTimeUpdate,
+  mouseReplay,
+  recordMouse = false,
+  onMouseRecorded,
   className = "",
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const glRef = useRef<WebGL2RenderingContext | null>(null);
-  const programRef = useRef<WebGLProgram | null>(null);
-  const uniformsRef = useRef<ShaderUniforms | null>(null);
+  const rendererRef = useRef<ShaderRenderer | null>(null);
   const animationFrameRef = useRef<number | null>(null);
-  const startTimeRef = useRef<number>(0);
+  // Latest render callback; each frame schedules the next through it
+  const renderLoopRef = useRef<(currentTime: number) => void>(() => {});
   const frameCountRef = useRef<number>(0);
   const lastFrameTimeRef = useRef<number>(0);
-  const frameTimesRef = useRef<number[]>([]);
-  const gpuTimeSamplesRef = useRef<number[]>([]);
-  const mouseRef = useRef<[number, number, number, number]>([0, 0, 0, 0]);
-  const queryRef = useRef<WebGLQuery | null>(null);
+  const statsRef = useRef(new FrameStats(0));
+  const mouseRef = useRef(new ShadertoyMouse());
+  const mouseReplayRef = useRef(mouseReplay);
+  const recorderRef = useRef<MouseRecorder | null>(null);
+  const onMouseRecordedRef = useRef(onMouseRecorded);
+  // Playback position; the deterministic clock's frame is derived from it
+  const clockRef = useRef(new PlaybackClock());
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  const inputValuesRef = useRef(inputValues);
+  const onInputsDetectedRef = useRef(onInputsDetected);
+  const renderScaleRef = useRef({ scale: renderScale, filter: upscaleFilter });
+  const contextEventsRef = useRef<ContextEvent[]>([]);
+  const onContextEventRef = useRef(onContextEvent);
+  // Fetched up front, getExtension returns null once the context is lost
+  const loseContextRef = useRef<WEBGL_lose_context | null>(null);
+  // 2D context of the display canvas when pooled
+  const displayRef = useRef<CanvasRenderingContext2D | null>(null);
+  // Offscreen mode: the worker's canvas is created inside this wrapper
+  const containerRef = useRef<HTMLDivElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const workerCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Read by the worker effect, so new callbacks or classes don't restart the worker
+  const onResizeRef = useRef(onResize);
+  const classNameRef = useRef(className);
+  const onPerformanceUpdateRef = useRef(onPerformanceUpdate);
+  const stressRef = useRef<StressController | null>(null);
+
+  const postToWorker = (request: RenderWorkerRequest) =>
+    workerRef.current?.postMessage(request);
+
+  useEffect(() => {
+    inputValuesRef.current = inputValues;
+    postToWorker({ type: "inputs", values: inputValues });
+  }, [inputValues]);
+
+  useEffect(() => {
+    onPerformanceUpdateRef.current = onPerformanceUpdate;
+  }, [onPerformanceUpdate]);
+
+  useEffect(() => {
+    onInputsDetectedRef.current = onInputsDetected;
+  }, [onInputsDetected]);
+
+  useEffect(() => {
+    onContextEventRef.current = onContextEvent;
+  }, [onContextEvent]);
+
+  useEffect(() => {
+    onTimeUpdateRef.current = onTimeUpdate;
+  }, [onTimeUpdate]);
+
+  useEffect(() => {
+    onMouseRecordedRef.current = onMouseRecorded;
+  }, [onMouseRecorded]);
+
+  useEffect(() => {
+    onResizeRef.current = onResize;
+  }, [onResize]);
+
+  useEffect(() => {
+    classNameRef.current = className;
+    if (workerCanvasRef.current) {
+      workerCanvasRef.current.className = `${className} block`;
+    }
+  }, [className]);
+
+  useEffect(() => {
+    mouseReplayRef.current = mouseReplay;
+    postToWorker({ type: "mouseReplay", trajectory: mouseReplay });
+  }, [mouseReplay]);
+
+  // Pointer events are stamped with the timeline position; the worker records
+  // against its own clock and reports back
+  useEffect(() => {
+    if (workerRef.current) {
+      postToWorker({ type: "recordMouse", recording: recordMouse });
+      return;
+    }
+
+    const canvas = canvasRef.current;
+    if (recordMouse && canvas) {
+      recorderRef.current = new MouseRecorder(
+        canvas.width,
+        canvas.height,
+        clockRef.current.time
+      );
+    } else if (!recordMouse && recorderRef.current) {
+      onMouseRecordedRef.current?.(
+        recorderRef.current.finish(clockRef.current.time)
+      );
+      recorderRef.current = null;
+    }
+  }, [recordMouse]);
+
+  // Transport changes apply to the running clock, nothing restarts
+  useEffect(() => {
+    const settings = { paused, speed, offset: timeOffset };
+    clockRef.current.settings = settings;
+    postToWorker({ type: "playback", settings });
+  }, [paused, speed, timeOffset]);
+
+  // Seeks and steps go to whichever loop owns the clock; the worker reports back
+  const transportRef = useRef<PlaybackTransport>({
+    seek: (time) => {
+      if (workerRef.current) {
+        postToWorker({ type: "seek", time });
+        return;
+      }
+      clockRef.current.seek(time);
+      onTimeUpdateRef.current?.(clockRef.current.time);
+    },
+    step: (frames) => {
+      if (workerRef.current) {
+        postToWorker({ type: "step", frames });
+        return;
+      }
+      clockRef.current.step(frames);
+      onTimeUpdateRef.current?.(clockRef.current.time);
+    },
+  });
+
+  useEffect(() => {
+    onTransport?.(transportRef.current);
+  }, [onTransport]);
+
+  useEffect(() => {
+    postToWorker({ type: "forceContextLoss", lost: forceContextLoss });
+
+    const ext = loseContextRef.current;
+    const gl = glRef.current;
+    if (!ext || !gl) return;
+
+    if (forceContextLoss && !gl.isContextLost()) {
+      ext.loseContext();
+    } else if (!forceContextLoss && gl.isContextLost()) {
+      ext.restoreContext();
+    }
+  }, [forceContextLoss]);
+
+  // Changing the scale resizes render targets without recompiling
+  useEffect(() => {
+    renderScaleRef.current = { scale: renderScale, filter: upscaleFilter };
+    rendererRef.current?.setRenderScale(renderScale, upscaleFilter);
+    postToWorker({ type: "renderScale", scale: renderScale, filter: upscaleFilter });
+  }, [renderScale, upscaleFilter]);
+
+  // Stress mode changes apply to the running shader, timings start over
+  useEffect(() => {
+    stressRef.current = stress === undefined ? null : new StressController(stress);
+    const renderer = rendererRef.current;
+    if (renderer) {
+      renderer.setDrawMultiplier(stressRef.current?.multiplier ?? 1);
+      statsRef.current = new FrameStats(
+        renderer.passNames.length,
+        renderer.renderedFrames
+      );
+    }
+    postToWorker({ type: "stress", mode: stress });
+  }, [stress]);
 
   // Dynamic canvas sizing handler
   const resizeCanvas = useCallback((newWidth: number, newHeight: number) => {
-    const gl = glRef.current;
-    const uniforms = uniformsRef.current;
+    const renderer = rendererRef.current;
 
-    if (!gl || !uniforms) return;
+    if (!renderer) return;
 
     // Update canvas dimensions
     const canvas = canvasRef.current;
@@ -72,12 +351,12 @@ export const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
       canvas.width = newWidth;
       canvas.height = newHeight;
     }
-
-    // Update WebGL viewport and uniform
-    gl.viewport(0, 0, newWidth, newHeight);
-    if (uniforms.iResolution) {
-      gl.uniform3f(uniforms.iResolution, newWidth, newHeight, 1.0);
+    if (displayRef.current) {
+      RendererPool.reserve(newWidth, newHeight);
     }
+
+    // Update viewport, iResolution and buffer targets
+    renderer.resize(newWidth, newHeight);
   }, []);
 
   const resizeCallbackRef = useRef(resizeCanvas);
@@ -87,51 +366,19 @@ export const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
     resizeCallbackRef.current = resizeCanvas;
   }, [resizeCanvas]);
 
-  // Vertex shader for full-screen quad
-  const vertexShaderSource = `#version 300 es
-    precision highp float;
-    
-    in vec2 position;
-    
-    void main() {
-      gl_Position = vec4(position, 0.0, 1.0);
-    }
-  `;
-
-  const compileShader = useCallback(
-    (
-      gl: WebGL2RenderingContext,
-      source: string,
-      type: number
-    ): WebGLShader | null => {
-      const shader = gl.createShader(type);
-      if (!shader) return null;
-
-      gl.shaderSource(shader, source);
-      gl.compileShader(shader);
-
-      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-        console.error("Shader compilation error:", gl.getShaderInfoLog(shader));
-        gl.deleteShader(shader);
-        return null;
-      }
-
-      return shader;
-    },
-    []
-  );
-
   const initWebGL = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return false;
 
-    const gl = canvas.getContext("webgl2", {
-      alpha: false,
-      antialias: false,
-      depth: false,
-      stencil: false,
-      powerPreference: "high-performance",
-    });
+    const gl = pooled
+      ? RendererPool.acquire(canvas)
+      : canvas.getContext("webgl2", {
+          alpha: false,
+          antialias: false,
+          depth: false,
+          stencil: false,
+          powerPreference: "high-performance",
+        });
 
     if (!gl) {
       console.error("WebGL2 not supported");
@@ -139,70 +386,41 @@ export const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
     }
 
     glRef.current = gl;
+    loseContextRef.current = gl.getExtension("WEBGL_lose_context");
 
-    // Create GPU timer query if available
-    const ext = gl.getExtension("EXT_disjoint_timer_query_webgl2");
-    if (ext) {
-      queryRef.current = gl.createQuery();
+    if (pooled) {
+      displayRef.current = canvas.getContext("2d");
+      RendererPool.reserve(width, height);
+    } else {
+      displayRef.current = null;
     }
 
-    // Compile shaders
-    const vertexShader = compileShader(
-      gl,
-      vertexShaderSource,
-      gl.VERTEX_SHADER
-    );
-    const compiledFragmentShader = compileShader(
-      gl,
-      ShaderCompat.convertShadertoy(fragmentShader),
-      gl.FRAGMENT_SHADER
-    );
-
-    if (!vertexShader || !compiledFragmentShader) return false;
-
-    // Create program
-    const program = gl.createProgram();
-    if (!program) return false;
-
-    gl.attachShader(program, vertexShader);
-    gl.attachShader(program, compiledFragmentShader);
-    gl.linkProgram(program);
-
-    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-      console.error("Program linking error:", gl.getProgramInfoLog(program));
+    // Compile all passes and allocate buffer targets
+    try {
+      rendererRef.current = new ShaderRenderer(
+        gl,
+        { fragmentShader, common, channels, buffers, dialect, inputs },
+        width,
+        height
+      );
+    } catch (error) {
+      console.error("Shader initialization error:", error);
       return false;
     }
 
-    programRef.current = program;
-    gl.useProgram(program);
-
-    // Get uniform locations
-    uniformsRef.current = {
-      iResolution: gl.getUniformLocation(program, "iResolution"),
-      iTime: gl.getUniformLocation(program, "iTime"),
-      iTimeDelta: gl.getUniformLocation(program, "iTimeDelta"),
-      iFrame: gl.getUniformLocation(program, "iFrame"),
-      iMouse: gl.getUniformLocation(program, "iMouse"),
-      iDate: gl.getUniformLocation(program, "iDate"),
-    };
-
-    // Create full-screen quad
-    const positions = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]);
-    const buffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
-    gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
-
-    const positionLocation = gl.getAttribLocation(program, "position");
-    gl.enableVertexAttribArray(positionLocation);
-    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
-
-    // Set initial resolution
-    gl.uniform3f(uniformsRef.current.iResolution, width, height, 1.0);
+    rendererRef.current.setRenderScale(
+      renderScaleRef.current.scale,
+      renderScaleRef.current.filter
+    );
+    stressRef.current?.reset();
+    rendererRef.current.setDrawMultiplier(stressRef.current?.multiplier ?? 1);
+    onInputsDetectedRef.current?.(rendererRef.current.userInputs);
+    statsRef.current = new FrameStats(rendererRef.current.passNames.length);
 
-    startTimeRef.current = performance.now();
     frameCountRef.current = 0;
-    lastFrameTimeRef.current = startTimeRef.current;
-    frameTimesRef.current = [];
+    clockRef.current.restart();
+    onTimeUpdateRef.current?.(0);
+    lastFrameTimeRef.current = performance.now();
 
     // Simplified VSync detection
     let rafTimestamps: number[] = [];
@@ -225,7 +443,16 @@ export const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
     requestAnimationFrame(detectRefreshRate);
 
     return true;
-  }, [fragmentShader, width, height, compileShader]);
+  }, [fragmentShader, common, channels, buffers, dialect, inputs, pooled, width, height]);
+
+  // Copy the frame just rendered on the pooled context to the display canvas
+  const presentPooled = useCallback(() => {
+    const display = displayRef.current;
+    const canvas = canvasRef.current;
+    if (display && canvas) {
+      RendererPool.present(display, canvas.width, canvas.height);
+    }
+  }, []);
 
   // Validation diagnostic function
   const validateMetrics = useCallback(() => {
@@ -234,164 +461,149 @@ export const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
 
     console.group("Performance Validation");
     console.log("RAF Interval:", lastFrameTimeRef.current);
-    console.log("GPU Time:", (uniformsRef.current as any)?.lastGpuTime);
+    console.log("GPU Time:", statsRef.current.gpuTimes.slice(-5));
     console.log("Refresh Rate:", (gl as any).__refreshRate);
-    console.log("Frame Times:", frameTimesRef.current.slice(-5));
+    console.log("Frame Times:", statsRef.current.frameTimes.slice(-5));
     console.groupEnd();
   }, []);
 
   const calculateMetrics = useCallback(
-    (
-      currentTime: number,
-      frameTimes: number[],
-      gpuTimeSamples: number[]
-    ): PerformanceMetrics => {
-      const frameTime = currentTime - lastFrameTimeRef.current;
-      frameTimes.push(frameTime);
-
-      // Keep only last 120 frames for rolling average
-      if (frameTimes.length > 120) frameTimes.shift();
-
-      // Calculate RAF-based metrics
-      const avgFrameTime =
-        frameTimes.reduce((sum, t) => sum + t, 0) / frameTimes.length;
-      const rafFps = 1000 / avgFrameTime;
-      const minFrameTime = Math.min(...frameTimes);
-      const maxFrameTime = Math.max(...frameTimes);
-
-      // Detect actual frame drops based on RAF timing
-      const targetFrameTime = 1000 / 60; // 16.67ms for 60 FPS
-      const droppedFrames = frameTimes.filter(
-        (t) => t > targetFrameTime * 1.5 // 50% threshold
-      ).length;
-
-      // Calculate GPU-based metrics if available
-      let gpuFps = rafFps; // Default to RAF-based FPS
-      let reportedGpuTime: number | undefined = undefined;
-
-      if (gpuTimeSamples.length > 0) {
-        // Keep only last 30 GPU samples
-        if (gpuTimeSamples.length > 30) gpuTimeSamples.shift();
-
-        // Use median GPU time to filter outliers
-        const sortedGpuTimes = [...gpuTimeSamples].sort((a, b) => a - b);
-        const medianGpuTime =
-          sortedGpuTimes[Math.floor(sortedGpuTimes.length / 2)];
-
-        gpuFps = 1000 / medianGpuTime;
-        reportedGpuTime = medianGpuTime;
-      }
-
-      // Use GPU FPS if available and reasonable (within 2x of RAF FPS)
-      const finalFps =
-        reportedGpuTime && Math.abs(gpuFps - rafFps) < rafFps * 2
-          ? gpuFps
-          : rafFps;
-
-      return {
-        fps: Math.round(finalFps * 100) / 100,
-        frameTime: Math.round(frameTime * 100) / 100,
-        avgFrameTime: Math.round(avgFrameTime * 100) / 100,
-        minFrameTime: Math.round(minFrameTime * 100) / 100,
-        maxFrameTime: Math.round(maxFrameTime * 100) / 100,
-        droppedFrames,
+    (currentTime: number, time: number): PerformanceMetrics =>
+      statsRef.current.metrics(currentTime - lastFrameTimeRef.current, {
         totalFrames: frameCountRef.current,
-        gpuTime: reportedGpuTime,
         resolution: { width, height },
-        pixelCount: width * height,
-      };
-    },
+        renderResolution: rendererRef.current?.renderSize ?? { width, height },
+        renderScale: renderScaleRef.current.scale,
+        passNames: rendererRef.current?.passNames ?? [],
+        renderThread: "main",
+        gpuTimer: rendererRef.current?.hasGpuTimer ?? false,
+        drawMultiplier: stressRef.current?.multiplier,
+        time,
+        contextEvents:
+          contextEventsRef.current.length > 0
+            ? [...contextEventsRef.current]
+            : undefined,
+      }),
     [width, height]
   );
 
   const render = useCallback(
     (currentTime: number) => {
-      const gl = glRef.current;
-      const uniforms = uniformsRef.current;
-
-      if (!gl || !uniforms) return;
-
-      const elapsedTime = paused
-        ? pausedTime ?? 0
-        : (currentTime - startTimeRef.current) / 1000;
-      const deltaTime = paused
-        ? 0
-        : (currentTime - lastFrameTimeRef.current) / 1000;
-
-      // Update uniforms
-      if (uniforms.iTime) gl.uniform1f(uniforms.iTime, elapsedTime);
-      if (uniforms.iTimeDelta) gl.uniform1f(uniforms.iTimeDelta, deltaTime);
-      if (uniforms.iFrame) gl.uniform1i(uniforms.iFrame, frameCountRef.current);
-      if (uniforms.iMouse) gl.uniform4f(uniforms.iMouse, ...mouseRef.current);
-
-      // Update date
-      if (uniforms.iDate) {
-        const date = new Date();
-        gl.uniform4f(
-          uniforms.iDate,
-          date.getFullYear(),
-          date.getMonth(),
-          date.getDate(),
-          date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds()
-        );
-      }
-
-      // Render viewport
-      gl.viewport(0, 0, width, height);
-
-      // GPU timing implementation
-      const ext = gl.getExtension("EXT_disjoint_timer_query_webgl2");
-
-      if (ext && queryRef.current) {
-        // Check if previous query result is available (non-blocking)
-        const queryAvailable = gl.getQueryParameter(
-          queryRef.current,
-          gl.QUERY_RESULT_AVAILABLE
+      const renderer = rendererRef.current;
+
+      if (!renderer) return;
+
+      const clock = clockRef.current;
+
+      // Collect finished GPU timings of earlier frames, freeing their query slots
+      const gpuPoll = renderer.pollGpuTimes();
+      statsRef.current.recordGpuTimes(gpuPoll);
+
+      // Auto stress mode tunes the draw count from the same samples
+      const stressController = stressRef.current;
+      if (
+        stressController?.recordFrame(
+          currentTime - lastFrameTimeRef.current,
+          gpuPoll,
+          renderer.renderedFrames
+        )
+      ) {
+        renderer.setDrawMultiplier(stressController.multiplier);
+        statsRef.current = new FrameStats(
+          renderer.passNames.length,
+          renderer.renderedFrames
         );
-
-        if (queryAvailable) {
-          const gpuTimeNs = gl.getQueryParameter(
-            queryRef.current,
-            gl.QUERY_RESULT
-          );
-          const gpuTimeMs = gpuTimeNs / 1_000_000; // Convert nanoseconds to milliseconds
-
-          // Store GPU sample (only if reasonable - filter extreme outliers)
-          if (gpuTimeMs > 0 && gpuTimeMs < 1000) {
-            gpuTimeSamplesRef.current.push(gpuTimeMs);
-          }
-        }
-
-        // Start timing this frame's GPU work
-        gl.beginQuery(ext.TIME_ELAPSED_EXT, queryRef.current);
       }
 
-      // Execute draw call
-      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
-
-      if (ext && queryRef.current) {
-        gl.endQuery(ext.TIME_ELAPSED_EXT);
+      let time: number;
+      if (deterministic) {
+        const settings = {
+          ...clock.offsetSettings(deterministic),
+          trajectory: mouseReplayRef.current ?? deterministic.trajectory,
+        };
+        const frame = clock.nextFrame();
+        renderer.renderFrame(frame, settings, inputValuesRef.current);
+        time = settings.startTime + frame * settings.timestep;
+      } else {
+        const since = clock.time;
+        const timeDelta = clock.tick(currentTime);
+        time = clock.time + clock.settings.offset;
+        const replay = mouseReplayRef.current;
+        const { width: outputWidth, height: outputHeight } = renderer.outputSize;
+        const date = new Date();
+        renderer.render({
+          time,
+          timeDelta,
+          frame: frameCountRef.current,
+          mouse: replay
+            ? ShadertoyMouse.replay(replay, clock.time, since, outputWidth, outputHeight)
+            : mouseRef.current.frame(),
+          inputs: inputValuesRef.current,
+          date: [
+            date.getFullYear(),
+            date.getMonth(),
+            date.getDate(),
+            date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds(),
+          ],
+        });
       }
+      presentPooled();
 
       frameCountRef.current++;
 
       // Update performance metrics every 10 frames to prevent React render storms
-      if (frameCountRef.current % 10 === 0 && onPerformanceUpdate) {
-        const metrics = calculateMetrics(
-          currentTime,
-          frameTimesRef.current,
-          gpuTimeSamplesRef.current
-        );
-        onPerformanceUpdate(metrics);
+      if (frameCountRef.current % 10 === 0) {
+        onPerformanceUpdateRef.current?.(calculateMetrics(currentTime, time));
+        onTimeUpdateRef.current?.(clock.time);
       }
 
       lastFrameTimeRef.current = currentTime;
-      animationFrameRef.current = requestAnimationFrame(render);
+      animationFrameRef.current = requestAnimationFrame(renderLoopRef.current);
+    },
+    // Transport settings and callbacks are read through refs, so changing
+    // them doesn't leave the running loop on a stale closure
+    [calculateMetrics, presentPooled, deterministic]
+  );
+
+  useEffect(() => {
+    renderLoopRef.current = render;
+  }, [render]);
+
+  // Render frame N now; the clock holds there while paused, else continues from N + 1
+  const renderFrame = useCallback(
+    (frame: number) => {
+      const renderer = rendererRef.current;
+      if (!renderer) return null;
+
+      const clock = clockRef.current;
+      const settings = deterministic ?? DEFAULT_DETERMINISTIC_SETTINGS;
+      renderer.renderFrame(
+        frame,
+        {
+          ...clock.offsetSettings(settings),
+          trajectory: mouseReplayRef.current ?? settings.trajectory,
+        },
+        inputValuesRef.current
+      );
+      clock.seek((clock.settings.paused ? frame : frame + 1) * clock.timestep);
+      onTimeUpdateRef.current?.(clock.time);
+      const pixels = renderer.readPixels();
+      presentPooled();
+      return pixels;
     },
-    [width, height, onPerformanceUpdate, calculateMetrics, paused, pausedTime]
+    [deterministic, presentPooled]
   );
 
   useEffect(() => {
+    onRenderFrame?.(renderFrame);
+  }, [onRenderFrame, renderFrame]);
+
+  useEffect(() => {
+    if (offscreen) return;
+
+    clockRef.current.timestep = (deterministic ?? DEFAULT_DETERMINISTIC_SETTINGS).timestep;
+    // Context events are reported per compiled shader; restores keep the list
+    contextEventsRef.current = [];
     if (initWebGL()) {
       animationFrameRef.current = requestAnimationFrame(render);
     }
@@ -406,28 +618,55 @@ export const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
       (window as any).__shaderValidateMetrics = validateMetrics;
     }
 
-    // Mouse tracking
+    // Mouse tracking; releases count anywhere, so drags can end off the canvas
     const canvas = canvasRef.current;
-    const handleMouseMove = (e: MouseEvent) => {
+    const pointer = (action: PointerAction) => (e: MouseEvent) => {
       if (!canvas) return;
-      const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = height - (e.clientY - rect.top); // Flip Y for WebGL
-      mouseRef.current[0] = x;
-      mouseRef.current[1] = y;
+      const [x, y] = canvasPointer(canvas, e);
+      mouseRef.current.pointer(action, x, y);
+      recorderRef.current?.record(action, x, y, clockRef.current.time);
+    };
+    const handleMouseMove = pointer("move");
+    const handleMouseDown = pointer("down");
+    const handleMouseUp = pointer("up");
+
+    // A lost context stops the render loop (no renderer); once restored,
+    // every program, buffer and query is rebuilt and timing starts over
+    const recordContextEvent = (type: ContextEvent["type"]) => {
+      const event = {
+        type,
+        timestamp: Date.now(),
+        frame: frameCountRef.current,
+      };
+      contextEventsRef.current.push(event);
+      onContextEventRef.current?.(event);
     };
 
-    const handleMouseDown = (e: MouseEvent) => {
-      if (!canvas) return;
-      const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = height - (e.clientY - rect.top);
-      mouseRef.current[2] = x;
-      mouseRef.current[3] = y;
+    const handleContextLost = (e: Event) => {
+      // Required for the browser to attempt a restore
+      e.preventDefault();
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+      rendererRef.current = null;
+      recordContextEvent("lost");
+    };
+
+    const handleContextRestored = () => {
+      recordContextEvent("restored");
+      if (initWebGL()) {
+        animationFrameRef.current = requestAnimationFrame(render);
+      }
     };
 
     canvas?.addEventListener("mousemove", handleMouseMove);
     canvas?.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("mouseup", handleMouseUp);
+
+    // A pooled context is lost and restored for every canvas sharing it
+    const contextCanvas = pooled ? RendererPool.contextCanvas : canvas;
+    contextCanvas?.addEventListener("webglcontextlost", handleContextLost);
+    contextCanvas?.addEventListener("webglcontextrestored", handleContextRestored);
 
     return () => {
       if (animationFrameRef.current) {
@@ -435,10 +674,19 @@ export const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
       }
       canvas?.removeEventListener("mousemove", handleMouseMove);
       canvas?.removeEventListener("mousedown", handleMouseDown);
-
-      const gl = glRef.current;
-      if (gl && programRef.current) {
-        gl.deleteProgram(programRef.current);
+      window.removeEventListener("mouseup", handleMouseUp);
+      contextCanvas?.removeEventListener("webglcontextlost", handleContextLost);
+      contextCanvas?.removeEventListener(
+        "webglcontextrestored",
+        handleContextRestored
+      );
+
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+      if (pooled && canvas) {
+        // The pool drops its context once the last canvas releases it
+        RendererPool.release(canvas);
+        loseContextRef.current = null;
       }
 
       // Cleanup window reference
@@ -446,10 +694,105 @@ export const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
         delete (window as any).__shaderValidateMetrics;
       }
     };
-  }, [fragmentShader, width, height, validateMetrics]);
+  }, [fragmentShader, common, channels, buffers, dialect, inputs, deterministic, pooled, offscreen, width, height, validateMetrics]);
+
+  // Offscreen mode: compile and render in a worker, metrics arrive as messages
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!offscreen || !container) return;
+
+    // Control transfers once per canvas, so every compile gets a fresh one
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.className = `${classNameRef.current} block`;
+    canvas.style.imageRendering = "pixelated";
+    container.appendChild(canvas);
+    workerCanvasRef.current = canvas;
+
+    const worker = new Worker(
+      new URL("../../utils/ShaderRenderWorker.ts", import.meta.url),
+      { type: "module" }
+    );
+    workerRef.current = worker;
+
+    worker.onmessage = (e: MessageEvent<RenderWorkerMessage>) => {
+      const message = e.data;
+      switch (message.type) {
+        case "inputsDetected":
+          onInputsDetectedRef.current?.(message.inputs);
+          break;
+        case "metrics":
+          onPerformanceUpdateRef.current?.(message.metrics);
+          break;
+        case "context":
+          onContextEventRef.current?.(message.event);
+          break;
+        case "time":
+          onTimeUpdateRef.current?.(message.time);
+          break;
+        case "mouseTrajectory":
+          onMouseRecordedRef.current?.(message.trajectory);
+          break;
+        case "error":
+          console.error("Shader initialization error:", message.message);
+          break;
+      }
+    };
+
+    const offscreenCanvas = canvas.transferControlToOffscreen();
+    const init: RenderWorkerRequest = {
+      type: "init",
+      canvas: offscreenCanvas,
+      source: { fragmentShader, common, channels, buffers, dialect, inputs },
+      width,
+      height,
+      renderScale: renderScaleRef.current.scale,
+      upscaleFilter: renderScaleRef.current.filter,
+      inputValues: inputValuesRef.current,
+      deterministic,
+      stress: stressRef.current?.mode,
+      playback: clockRef.current.settings,
+      mouseReplay: mouseReplayRef.current,
+    };
+    worker.postMessage(init, [offscreenCanvas]);
+
+    // The transferred canvas can only be resized from the worker
+    onResizeRef.current?.((newWidth, newHeight) =>
+      postToWorker({ type: "resize", width: newWidth, height: newHeight })
+    );
+
+    const pointer = (action: PointerAction) => (e: MouseEvent) => {
+      const [x, y] = canvasPointer(canvas, e);
+      postToWorker({ type: "pointer", action, x, y });
+    };
+    const handleMouseMove = pointer("move");
+    const handleMouseDown = pointer("down");
+    const handleMouseUp = pointer("up");
+
+    canvas.addEventListener("mousemove", handleMouseMove);
+    canvas.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("mouseup", handleMouseUp);
+
+    return () => {
+      canvas.removeEventListener("mousemove", handleMouseMove);
+      canvas.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("mouseup", handleMouseUp);
+      worker.terminate();
+      workerRef.current = null;
+      workerCanvasRef.current = null;
+      canvas.remove();
+    };
+  }, [offscreen, fragmentShader, common, channels, buffers, dialect, inputs, deterministic, width, height]);
+
+  if (offscreen) {
+    return <div ref={containerRef} className="contents" />;
+  }
 
   return (
     <canvas
+      // A canvas holding a 2D context can't switch to WebGL, or back
+      key={pooled ? "pooled" : "own"}
       ref={canvasRef}
       width={width}
       height={height}
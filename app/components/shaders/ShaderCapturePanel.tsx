@@ -0,0 +1,169 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { ShaderDefinition, ShaderInputValue } from "./ShaderViewer";
+import { CaptureFormat, FrameCapture } from "../../utils/FrameCapture";
+import { DeterministicSettings } from "../../utils/DeterministicClock";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Film, Loader2 } from "lucide-react";
+
+interface ShaderCapturePanelProps {
+  shader: ShaderDefinition;
+  inputValues: Record<string, ShaderInputValue>;
+  // Deterministic clock in use by the viewer, if any
+  clock?: DeterministicSettings;
+  width: number;
+  height: number;
+}
+
+export const ShaderCapturePanel: React.FC<ShaderCapturePanelProps> = ({
+  shader,
+  inputValues,
+  clock,
+  width,
+  height,
+}) => {
+  const [format, setFormat] = useState<CaptureFormat>("png");
+  const [captureWidth, setCaptureWidth] = useState(width);
+  const [captureHeight, setCaptureHeight] = useState(height);
+  const [startFrame, setStartFrame] = useState(0);
+  const [endFrame, setEndFrame] = useState(119);
+  const [fps, setFps] = useState(60);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const abortRef = useRef<AbortController | null>(null);
+
+  const startCapture = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: endFrame - startFrame + 1 });
+
+    try {
+      const blob = await FrameCapture.capture(shader, {
+        format,
+        width: captureWidth,
+        height: captureHeight,
+        startFrame,
+        endFrame,
+        fps,
+        inputs: inputValues,
+        clock,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${shader.name.replace(/\s+/g, "_")}_${startFrame}-${endFrame}.${
+        format === "png" ? "zip" : "webm"
+      }`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        alert(
+          `Capture failed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const numberField = (
+    id: string,
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    min = 0
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        value={value}
+        onChange={(e) => onChange(Math.floor(Number(e.target.value) || 0))}
+        disabled={progress !== null}
+        className="h-8"
+      />
+    </div>
+  );
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center gap-2 font-semibold text-sm">
+        <Film className="w-4 h-4" />
+        Capture
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+        <div className="space-y-1 col-span-2 md:col-span-1">
+          <Label className="text-xs">Format</Label>
+          <Select
+            value={format}
+            onValueChange={(value) => setFormat(value as CaptureFormat)}
+            disabled={progress !== null}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="png">PNG sequence (zip)</SelectItem>
+              <SelectItem value="webm" disabled={!FrameCapture.supportsWebm()}>
+                WebM video
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {numberField("capture-width", "Width", captureWidth, setCaptureWidth, 1)}
+        {numberField("capture-height", "Height", captureHeight, setCaptureHeight, 1)}
+        {numberField("capture-start", "First frame", startFrame, setStartFrame)}
+        {numberField("capture-end", "Last frame", endFrame, setEndFrame)}
+        {numberField("capture-fps", "FPS", fps, setFps, 1)}
+      </div>
+
+      <div className="flex items-center gap-3">
+        {progress ? (
+          <>
+            <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+            <span className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Frame {progress.done} / {progress.total}
+            </span>
+          </>
+        ) : (
+          <>
+            <Button size="sm" onClick={startCapture}>
+              Capture
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {endFrame - startFrame + 1} frames,{" "}
+              {((endFrame - startFrame + 1) / Math.max(fps, 1)).toFixed(2)}s at a
+              fixed {fps} fps timestep
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { ShaderDiagnostic } from "../../utils/ShaderCompact";
+import { cn } from "@/lib/utils";
+
+interface ShaderCodeEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  // Diagnostics already filtered to this editor's section
+  diagnostics?: ShaderDiagnostic[];
+}
+
+/**
+ * Plain textarea with a line-number gutter
+ * Lines with diagnostics are highlighted by a backdrop rendered underneath the
+ * transparent textarea, so both share the same font metrics and scroll together
+ */
+export const ShaderCodeEditor: React.FC<ShaderCodeEditorProps> = ({
+  id,
+  value,
+  onChange,
+  placeholder,
+  diagnostics = [],
+}) => {
+  const lines = value.split("\n");
+
+  const messagesByLine = useMemo(() => {
+    const map = new Map<number, ShaderDiagnostic[]>();
+    for (const diagnostic of diagnostics) {
+      map.set(diagnostic.line, [...(map.get(diagnostic.line) ?? []), diagnostic]);
+    }
+    return map;
+  }, [diagnostics]);
+
+  const hasError = (lineNumber: number) =>
+    messagesByLine.get(lineNumber)?.some((d) => d.severity === "error") ?? false;
+
+  const lineClass = (lineNumber: number) => {
+    if (!messagesByLine.has(lineNumber)) return undefined;
+    return hasError(lineNumber) ? "bg-destructive/20" : "bg-yellow-500/20";
+  };
+
+  const lineTitle = (lineNumber: number) =>
+    messagesByLine
+      .get(lineNumber)
+      ?.map((d) =>
+        [d.column && `${d.column}:`, d.rule && `[${d.rule}]`, d.message]
+          .filter(Boolean)
+          .join(" ")
+      )
+      .join("\n");
+
+  return (
+    <div className="border-input dark:bg-input/30 rounded-md border shadow-xs overflow-auto max-h-[500px] focus-within:border-ring focus-within:ring-ring/50 focus-within:ring-[3px]">
+      <div className="flex min-w-full w-max min-h-[400px] font-mono text-sm leading-5">
+        {/* Gutter */}
+        <div
+          aria-hidden
+          className="sticky left-0 z-10 select-none bg-muted/50 border-r py-2 text-right text-muted-foreground"
+        >
+          {lines.map((_, index) => (
+            <div
+              key={index}
+              title={lineTitle(index + 1)}
+              className={cn(
+                "px-2",
+                lineClass(index + 1),
+                messagesByLine.has(index + 1) && "font-semibold",
+                messagesByLine.has(index + 1) &&
+                  (hasError(index + 1) ? "text-destructive" : "text-yellow-600")
+              )}
+            >
+              {index + 1}
+            </div>
+          ))}
+        </div>
+
+        <div className="relative flex-1">
+          {/* Highlight backdrop */}
+          <div
+            aria-hidden
+            className="py-2 whitespace-pre text-transparent pointer-events-none"
+          >
+            {lines.map((line, index) => (
+              <div key={index} className={cn("px-3", lineClass(index + 1))}>
+                {line || " "}
+              </div>
+            ))}
+          </div>
+
+          <textarea
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            wrap="off"
+            spellCheck={false}
+            className="absolute inset-0 w-full h-full resize-none overflow-hidden bg-transparent px-3 py-2 outline-none placeholder:text-muted-foreground"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
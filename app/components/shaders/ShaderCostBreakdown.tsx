@@ -0,0 +1,116 @@
+"use client";
+
+import React from "react";
+import {
+  DEFAULT_LOOP_ITERATIONS,
+  GlslCostEstimator,
+  ShaderCostEstimate,
+} from "../../utils/GlslCostEstimator";
+import { Badge } from "@/components/ui/badge";
+import { Gauge } from "lucide-react";
+
+interface ShaderCostBreakdownProps {
+  estimate: ShaderCostEstimate;
+}
+
+export const ShaderCostBreakdown: React.FC<ShaderCostBreakdownProps> = ({
+  estimate,
+}) => {
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-semibold text-sm">
+          <Gauge className="w-4 h-4" />
+          Estimated Cost
+        </div>
+        <Badge variant="secondary" className="font-mono">
+          ~{GlslCostEstimator.formatScore(estimate.score)} / pixel
+        </Badge>
+      </div>
+
+      {estimate.passes.map((pass) => (
+        <div key={pass.name} className="space-y-2">
+          {estimate.passes.length > 1 && (
+            <p className="text-xs font-semibold text-muted-foreground">
+              {pass.name} · {GlslCostEstimator.formatScore(pass.score)}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs">
+            <div>
+              <p className="text-muted-foreground">Arithmetic</p>
+              <p className="font-mono">{Math.round(pass.counts.arithmetic)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Transcendentals</p>
+              <p className="font-mono">
+                {Math.round(pass.counts.transcendentals)}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Texture Fetches</p>
+              <p className="font-mono">
+                {Math.round(pass.counts.textureFetches)}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Branches</p>
+              <p className="font-mono">{Math.round(pass.counts.branches)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Loop Depth</p>
+              <p className="font-mono">{pass.maxLoopDepth}</p>
+            </div>
+          </div>
+
+          {pass.unboundedLoops > 0 && (
+            <p className="text-xs text-yellow-600">
+              {pass.unboundedLoops} loop(s) without a constant bound were
+              assumed to run {DEFAULT_LOOP_ITERATIONS} times.
+            </p>
+          )}
+
+          {pass.functions.length > 0 && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-muted-foreground text-left border-b">
+                  <th className="py-1 font-medium">Function</th>
+                  <th className="py-1 font-medium text-right">Loops</th>
+                  <th className="py-1 font-medium text-right">Self</th>
+                  <th className="py-1 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...pass.functions]
+                  .sort((a, b) => b.totalCost - a.totalCost)
+                  .map((fn) => (
+                    <tr key={`${fn.common}-${fn.name}-${fn.line}`}>
+                      <td className="py-1 font-mono">
+                        {fn.name}
+                        <span className="text-muted-foreground">
+                          {" "}
+                          {fn.common ? "Common" : ""}:{fn.line}
+                        </span>
+                      </td>
+                      <td className="py-1 font-mono text-right">{fn.loops}</td>
+                      <td className="py-1 font-mono text-right">
+                        {GlslCostEstimator.formatScore(fn.selfCost)}
+                      </td>
+                      <td className="py-1 font-mono text-right">
+                        {GlslCostEstimator.formatScore(fn.totalCost)}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        Static estimate from the source; compare it against measured GPU time
+        once the shader runs.
+      </p>
+    </div>
+  );
+};
@@ -1,10 +1,20 @@
 "use client";
 
-import React, { useState, useCallback, useEffect } from "react";
-import { ShaderViewer, ShaderDefinition } from "./ShaderViewer";
+import React, { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  ShaderViewer,
+  GoldenImage,
+  ShaderDefinition,
+  ShaderInputValue,
+} from "./ShaderViewer";
 import { ShaderCanvas, PerformanceMetrics } from "./ShaderCanvas";
 import { AddShaderModal } from "./AddShadermodal";
 import { ShaderManager, StoredShader } from "../../utils/ShaderManager";
+import { FrameCapture } from "../../utils/FrameCapture";
+import {
+  GlslCostEstimator,
+  ShaderCostEstimate,
+} from "../../utils/GlslCostEstimator";
 import { exampleShaders } from "../../lib/ShaderLibrary";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -32,6 +42,7 @@ import {
   Copy,
   X,
   Loader2,
+  Gauge,
 } from "lucide-react";
 
 interface ShaderGalleryProps {
@@ -43,9 +54,30 @@ interface ShaderGalleryProps {
 interface ShaderBenchmark {
   shader: string;
   metrics: PerformanceMetrics;
+  // Uniform control values the metrics were measured with
+  inputValues: Record<string, ShaderInputValue>;
   timestamp: number;
 }
 
+const THUMBNAIL_WIDTH = 400;
+const THUMBNAIL_HEIGHT = 225;
+const DEFAULT_THUMBNAIL_TIME = 1;
+
+// Still of a shader for its gallery card; empty if it doesn't compile
+const renderThumbnail = async (shader: ShaderDefinition): Promise<string> => {
+  try {
+    return await FrameCapture.thumbnail(shader, {
+      width: THUMBNAIL_WIDTH,
+      height: THUMBNAIL_HEIGHT,
+      time: shader.thumbnailTime ?? DEFAULT_THUMBNAIL_TIME,
+      inputs: shader.inputValues,
+    });
+  } catch (error) {
+    console.error(`Failed to render thumbnail for "${shader.name}":`, error);
+    return "";
+  }
+};
+
 interface ExtendedShaderDefinition extends ShaderDefinition {
   id?: string;
   source: "builtin" | "user";
@@ -67,7 +99,9 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
   const [benchmarks, setBenchmarks] = useState<Map<string, ShaderBenchmark>>(
     new Map()
   );
-  const [sortBy, setSortBy] = useState<"name" | "fps" | "frameTime">("name");
+  const [sortBy, setSortBy] = useState<
+    "name" | "fps" | "frameTime" | "drawCost" | "cost"
+  >("name");
   const [filterTag, setFilterTag] = useState<string>("");
   const [filterSource, setFilterSource] = useState<"all" | "builtin" | "user">(
     "all"
@@ -79,13 +113,38 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
   >();
   const [userShaders, setUserShaders] = useState<StoredShader[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // Built-in shaders aren't stored, so their thumbnails are kept for the session
+  const [builtinThumbnails, setBuiltinThumbnails] = useState<
+    Map<string, string>
+  >(new Map());
+  const thumbnailJobs = useRef(new Set<string>());
+  // The running thumbnail loop; a new loop waits for it to stop
+  const thumbnailLoop = useRef<Promise<void>>(Promise.resolve());
+  // Golden images of built-in shaders, likewise kept for the session
+  const [builtinGoldens, setBuiltinGoldens] = useState<
+    Map<string, GoldenImage[]>
+  >(new Map());
 
   // Combined shaders list
   const allShaders: ExtendedShaderDefinition[] = [
-    ...exampleShaders.map((s) => ({ ...s, source: "builtin" as const })),
+    ...exampleShaders.map((s) => ({
+      ...s,
+      thumbnailUrl: builtinThumbnails.get(s.name),
+      goldenImages: builtinGoldens.get(s.name),
+      source: "builtin" as const,
+    })),
     ...userShaders.map((s) => ({ ...s, source: "user" as const })),
   ];
 
+  // Static cost estimates, available before any shader has rendered
+  const costEstimates = useMemo(() => {
+    const estimates = new Map<string, ShaderCostEstimate>();
+    for (const shader of [...exampleShaders, ...userShaders]) {
+      estimates.set(shader.name, GlslCostEstimator.estimateShader(shader));
+    }
+    return estimates;
+  }, [userShaders]);
+
   // Initialize ShaderManager and load user shaders
   useEffect(() => {
     const initManager = async () => {
@@ -102,6 +161,73 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
     initManager();
   }, []);
 
+  // Render missing or outdated thumbnails one at a time, so browsing the
+  // gallery doesn't keep a live WebGL context per card
+  useEffect(() => {
+    if (isLoading) return;
+
+    const stale = [
+      ...exampleShaders
+        .filter((shader) => !builtinThumbnails.has(shader.name))
+        .map((shader) => ({
+          key: `builtin-${shader.name}`,
+          shader,
+          stored: null as StoredShader | null,
+        })),
+      ...userShaders
+        .filter(
+          (shader) =>
+            shader.thumbnailUrl === undefined ||
+            shader.thumbnailVersion !== shader.version
+        )
+        .map((shader) => ({
+          key: `user-${shader.id}-${shader.version}`,
+          shader,
+          stored: shader,
+        })),
+    ];
+
+    // A re-run of this effect stops the previous loop and takes over the
+    // remaining jobs; keys are claimed as each job starts, so no thumbnail is
+    // rendered twice
+    let cancelled = false;
+    const previous = thumbnailLoop.current;
+
+    const renderStale = async () => {
+      await previous;
+      for (const { key, shader, stored } of stale) {
+        if (cancelled) return;
+        if (thumbnailJobs.current.has(key)) continue;
+        thumbnailJobs.current.add(key);
+        const thumbnailUrl = await renderThumbnail(shader);
+
+        if (stored) {
+          const { id, version } = stored;
+          await ShaderManager.setThumbnail(id, thumbnailUrl, version);
+          setUserShaders((prev) =>
+            prev.map((s) =>
+              s.id === id && s.version === version
+                ? { ...s, thumbnailUrl, thumbnailVersion: version }
+                : s
+            )
+          );
+        } else {
+          setBuiltinThumbnails((prev) =>
+            new Map(prev).set(shader.name, thumbnailUrl)
+          );
+        }
+      }
+    };
+
+    thumbnailLoop.current = renderStale().catch((error) =>
+      console.error("Failed to render thumbnails:", error)
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoading, userShaders, builtinThumbnails]);
+
   const loadUserShaders = async () => {
     try {
       const shaders = await ShaderManager.getAllShaders();
@@ -112,12 +238,17 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
   };
 
   const handleMetricsCapture = useCallback(
-    (shaderName: string, metrics: PerformanceMetrics) => {
+    (
+      shaderName: string,
+      metrics: PerformanceMetrics,
+      inputValues: Record<string, ShaderInputValue>
+    ) => {
       setBenchmarks((prev) => {
         const newMap = new Map(prev);
         newMap.set(shaderName, {
           shader: shaderName,
           metrics,
+          inputValues,
           timestamp: Date.now(),
         });
         return newMap;
@@ -126,6 +257,54 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
     []
   );
 
+  // Control values of user shaders are saved once dragging settles
+  const inputSaveTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const handleInputValuesChange = (
+    shader: ExtendedShaderDefinition,
+    values: Record<string, ShaderInputValue>
+  ) => {
+    const id = shader.id;
+    if (shader.source !== "user" || !id) return;
+
+    clearTimeout(inputSaveTimers.current.get(id));
+    inputSaveTimers.current.set(
+      id,
+      setTimeout(async () => {
+        inputSaveTimers.current.delete(id);
+        try {
+          await ShaderManager.setInputValues(id, values);
+          setUserShaders((prev) =>
+            prev.map((s) => (s.id === id ? { ...s, inputValues: values } : s))
+          );
+        } catch (error) {
+          console.error("Failed to save input values:", error);
+        }
+      }, 500)
+    );
+  };
+
+  const handleGoldenImagesChange = async (
+    shader: ExtendedShaderDefinition,
+    images: GoldenImage[]
+  ) => {
+    if (shader.source !== "user" || !shader.id) {
+      setBuiltinGoldens((prev) => new Map(prev).set(shader.name, images));
+      return;
+    }
+
+    try {
+      await ShaderManager.setGoldenImages(shader.id, images);
+      await loadUserShaders();
+    } catch (error) {
+      alert(
+        `Failed to save golden images: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
   const toggleCompare = (shader: ExtendedShaderDefinition) => {
     setCompareShaders((prev) => {
       const exists = prev.find((s) => s.name === shader.name);
@@ -215,7 +394,17 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
       author: shader.author,
       description: shader.description,
       fragmentShader: shader.fragmentShader,
+      common: shader.common,
+      channels: shader.channels,
+      buffers: shader.buffers,
       tags: shader.tags,
+      dialect: shader.dialect,
+      inputs: shader.inputs,
+      inputValues: shader.inputValues,
+      thumbnailTime: shader.thumbnailTime,
+      goldenImages: shader.goldenImages,
+      license: shader.license,
+      suppressedLintRules: shader.suppressedLintRules,
     };
 
     try {
@@ -252,7 +441,7 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
   const handleImportShaders = async () => {
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = ".json";
+    input.accept = ".json,.fs";
 
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
@@ -260,7 +449,7 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
 
       try {
         const text = await file.text();
-        const result = await ShaderManager.importShaders(text);
+        const result = await ShaderManager.importShaders(text, file.name);
 
         await loadUserShaders();
 
@@ -268,6 +457,9 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
         if (result.errors.length > 0) {
           message += `\n\nErrors:\n${result.errors.join("\n")}`;
         }
+        if (result.warnings.length > 0) {
+          message += `\n\nWarnings:\n${result.warnings.join("\n")}`;
+        }
         alert(message);
       } catch (error) {
         alert(
@@ -335,6 +527,17 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
             benchmarks.get(b.name)?.metrics.avgFrameTime || Infinity;
           return aMetrics - bMetrics;
         }
+        // Only measured in stress mode, which ranks shaders below the vsync cap
+        case "drawCost": {
+          const aCost = benchmarks.get(a.name)?.metrics.drawCost ?? Infinity;
+          const bCost = benchmarks.get(b.name)?.metrics.drawCost ?? Infinity;
+          return aCost - bCost;
+        }
+        case "cost": {
+          const aCost = costEstimates.get(a.name)?.score ?? Infinity;
+          const bCost = costEstimates.get(b.name)?.score ?? Infinity;
+          return aCost - bCost;
+        }
         default:
           return a.name.localeCompare(b.name);
       }
@@ -346,7 +549,11 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
   ).sort();
 
   const exportBenchmarks = () => {
-    const data = Array.from(benchmarks.values());
+    // Estimated cost sits next to the measured metrics so the two can be compared
+    const data = Array.from(benchmarks.values()).map((benchmark) => ({
+      ...benchmark,
+      estimatedCost: costEstimates.get(benchmark.shader),
+    }));
     const blob = new Blob([JSON.stringify(data, null, 2)], {
       type: "application/json",
     });
@@ -515,6 +722,8 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
                   <SelectItem value="name">Name</SelectItem>
                   <SelectItem value="fps">FPS (High to Low)</SelectItem>
                   <SelectItem value="frameTime">Frame Time (Low to High)</SelectItem>
+                  <SelectItem value="drawCost">Per-draw Cost (Low to High)</SelectItem>
+                  <SelectItem value="cost">Estimated Cost (Low to High)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -544,6 +753,7 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {filteredShaders.map((shader) => {
             const benchmark = benchmarks.get(shader.name);
+            const estimate = costEstimates.get(shader.name);
             const isComparing = compareShaders.find(
               (s) => s.name === shader.name
             );
@@ -562,15 +772,38 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
                   className="relative aspect-video bg-black"
                   onClick={() => setSelectedShader(shader)}
                 >
-                  <ShaderCanvas
-                    fragmentShader={shader.fragmentShader}
-                    width={400}
-                    height={225}
-                    className="w-full h-full"
-                    paused={hoveredCard !== shader.name}
-                    pausedTime={0}
-                    onPerformanceUpdate={undefined}
-                  />
+                  {/* Live preview only while hovered, the cached still otherwise */}
+                  {hoveredCard === shader.name ? (
+                    <ShaderCanvas
+                      fragmentShader={shader.fragmentShader}
+                      common={shader.common}
+                      channels={shader.channels}
+                      buffers={shader.buffers}
+                      dialect={shader.dialect}
+                      inputs={shader.inputs}
+                      inputValues={shader.inputValues}
+                      width={THUMBNAIL_WIDTH}
+                      height={THUMBNAIL_HEIGHT}
+                      className="w-full h-full"
+                      onPerformanceUpdate={undefined}
+                      pooled
+                    />
+                  ) : shader.thumbnailUrl ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={shader.thumbnailUrl}
+                      alt={shader.name}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-xs text-muted-foreground">
+                      {shader.thumbnailUrl === "" ? (
+                        "No preview"
+                      ) : (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      )}
+                    </div>
+                  )}
 
                   {/* Quick Stats Overlay */}
                   {benchmark && (
@@ -584,6 +817,25 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
                     </div>
                   )}
 
+                  {/* Static Cost Estimate */}
+                  {estimate && (
+                    <Badge
+                      variant="secondary"
+                      className="absolute bottom-2 left-2 font-mono text-xs"
+                      title={estimate.passes
+                        .map(
+                          (pass) =>
+                            `${pass.name}: ${GlslCostEstimator.formatScore(
+                              pass.score
+                            )}`
+                        )
+                        .join("\n")}
+                    >
+                      <Gauge className="w-3 h-3 mr-1" />
+                      ~{GlslCostEstimator.formatScore(estimate.score)}
+                    </Badge>
+                  )}
+
                   {/* Source Badge */}
                   <Badge
                     variant={shader.source === "user" ? "default" : "secondary"}
@@ -698,6 +950,7 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
                   <th className="px-4 py-3 text-left text-sm font-semibold">Tags</th>
                   <th className="px-4 py-3 text-left text-sm font-semibold">FPS</th>
                   <th className="px-4 py-3 text-left text-sm font-semibold">Avg Frame Time</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold">Est. Cost</th>
                   <th className="px-4 py-3 text-left text-sm font-semibold">Actions</th>
                 </tr>
               </thead>
@@ -744,6 +997,13 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
                           ? `${benchmark.metrics.avgFrameTime.toFixed(1)}ms`
                           : "-"}
                       </td>
+                      <td className="px-4 py-3 font-mono text-sm">
+                        {costEstimates.has(shader.name)
+                          ? GlslCostEstimator.formatScore(
+                              costEstimates.get(shader.name)!.score
+                            )
+                          : "-"}
+                      </td>
                       <td
                         className="px-4 py-3"
                         onClick={(e) => e.stopPropagation()}
@@ -829,6 +1089,14 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
                     height={height}
                     showPerformance={true}
                     onMetricsCapture={handleMetricsCapture}
+                    onInputValuesChange={(values) =>
+                      handleInputValuesChange(shader, values)
+                    }
+                    regressionCandidates={allShaders}
+                    onGoldenImagesChange={(images) =>
+                      handleGoldenImagesChange(shader, images)
+                    }
+                    pooled
                   />
                 </div>
               ))}
@@ -862,6 +1130,13 @@ export const ShaderGallery: React.FC<ShaderGalleryProps> = ({
               showPerformance={true}
               showCode={true}
               onMetricsCapture={handleMetricsCapture}
+              onInputValuesChange={(values) =>
+                handleInputValuesChange(selectedShader, values)
+              }
+              regressionCandidates={allShaders}
+              onGoldenImagesChange={(images) =>
+                handleGoldenImagesChange(selectedShader, images)
+              }
             />
           </div>
         </div>
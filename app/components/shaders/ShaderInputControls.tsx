@@ -0,0 +1,220 @@
+"use client";
+
+import React from "react";
+import { ShaderInput, ShaderInputValue } from "./ShaderViewer";
+import { defaultInputValue } from "../../utils/ShaderRenderer";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SlidersHorizontal } from "lucide-react";
+
+interface ShaderInputControlsProps {
+  inputs: ShaderInput[];
+  values: Record<string, ShaderInputValue>;
+  onChange: (name: string, value: ShaderInputValue) => void;
+  // Canvas size, the default range of point2D inputs
+  width: number;
+  height: number;
+}
+
+const toHex = (color: number[]) =>
+  "#" +
+  color
+    .slice(0, 3)
+    .map((c) =>
+      Math.round(Math.min(Math.max(c, 0), 1) * 255)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("");
+
+const fromHex = (hex: string, alpha: number) => [
+  parseInt(hex.slice(1, 3), 16) / 255,
+  parseInt(hex.slice(3, 5), 16) / 255,
+  parseInt(hex.slice(5, 7), 16) / 255,
+  alpha,
+];
+
+const rangeAt = (range: number | number[] | undefined, index: number) =>
+  Array.isArray(range) ? range[index] : range;
+
+const formatValue = (value: number) =>
+  Number.isInteger(value) ? value.toString() : value.toFixed(3);
+
+export const ShaderInputControls: React.FC<ShaderInputControlsProps> = ({
+  inputs,
+  values,
+  onChange,
+  width,
+  height,
+}) => {
+  const valueOf = (input: ShaderInput) =>
+    values[input.name] ?? defaultInputValue(input);
+
+  const renderControl = (input: ShaderInput) => {
+    const value = valueOf(input);
+    const id = `input-${input.name}`;
+
+    switch (input.type) {
+      case "bool":
+        return (
+          <Switch
+            id={id}
+            checked={Boolean(value)}
+            onCheckedChange={(checked) => onChange(input.name, checked)}
+          />
+        );
+
+      case "event":
+        // Held while pressed, like an ISF event pulse
+        return (
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            size="sm"
+            onPointerDown={() => onChange(input.name, true)}
+            onPointerUp={() => onChange(input.name, false)}
+            onPointerLeave={() => onChange(input.name, false)}
+          >
+            Trigger
+          </Button>
+        );
+
+      case "color": {
+        const color = Array.isArray(value) ? value : [0, 0, 0, 1];
+        return (
+          <input
+            id={id}
+            type="color"
+            value={toHex(color)}
+            onChange={(e) =>
+              onChange(input.name, fromHex(e.target.value, color[3] ?? 1))
+            }
+            className="h-8 w-16 rounded border bg-transparent cursor-pointer"
+          />
+        );
+      }
+
+      case "point2D": {
+        const point = Array.isArray(value) ? value : [0, 0];
+        const size = [width, height];
+        return (
+          <div className="space-y-2">
+            {["x", "y"].map((axis, index) => {
+              const min = rangeAt(input.min, index) ?? 0;
+              const max = rangeAt(input.max, index) ?? size[index];
+              return (
+                <div key={axis} className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-3">
+                    {axis}
+                  </span>
+                  <Slider
+                    value={[point[index] ?? 0]}
+                    onValueChange={([v]) => {
+                      const next = [...point];
+                      next[index] = v;
+                      onChange(input.name, next);
+                    }}
+                    min={min}
+                    max={max}
+                    step={(max - min) / 100}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        );
+      }
+
+      case "long":
+        if (input.values?.length) {
+          return (
+            <Select
+              value={String(value)}
+              onValueChange={(v) => onChange(input.name, Number(v))}
+            >
+              <SelectTrigger id={id} size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {input.values.map((option, index) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {input.labels?.[index] ?? option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          );
+        }
+        return (
+          <Slider
+            id={id}
+            value={[Number(value)]}
+            onValueChange={([v]) => onChange(input.name, v)}
+            min={rangeAt(input.min, 0) ?? 0}
+            max={rangeAt(input.max, 0) ?? 10}
+            step={1}
+          />
+        );
+
+      default: {
+        const min = rangeAt(input.min, 0) ?? 0;
+        const max = rangeAt(input.max, 0) ?? 1;
+        return (
+          <Slider
+            id={id}
+            value={[Number(value)]}
+            onValueChange={([v]) => onChange(input.name, v)}
+            min={min}
+            max={max}
+            step={(max - min) / 100}
+          />
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center gap-2 font-semibold text-sm">
+        <SlidersHorizontal className="w-4 h-4" />
+        Inputs
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {inputs.map((input) => {
+          const value = valueOf(input);
+          return (
+            <div key={input.name} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor={`input-${input.name}`} className="text-xs">
+                  {input.label || input.name}
+                </Label>
+                {typeof value === "number" && !input.values?.length && (
+                  <span className="text-xs font-mono text-muted-foreground">
+                    {formatValue(value)}
+                  </span>
+                )}
+                {input.type === "point2D" && Array.isArray(value) && (
+                  <span className="text-xs font-mono text-muted-foreground">
+                    {value.map(formatValue).join(", ")}
+                  </span>
+                )}
+              </div>
+              {renderControl(input)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,340 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import { ShaderDefinition, ShaderInputValue } from "./ShaderViewer";
+import {
+  PrecisionBenchmark,
+  PrecisionBenchmarkResult,
+  PrecisionVariantResult,
+} from "../../utils/PrecisionBenchmark";
+import { FloatPrecision } from "../../utils/ShaderCompact";
+import { FrameCapture } from "../../utils/FrameCapture";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Binary, Loader2 } from "lucide-react";
+
+interface ShaderPrecisionPanelProps {
+  shader: ShaderDefinition;
+  inputValues: Record<string, ShaderInputValue>;
+  width: number;
+  height: number;
+}
+
+type LowerPrecision = Exclude<FloatPrecision, "highp">;
+
+const LOWER_PRECISIONS: LowerPrecision[] = ["mediump", "lowp"];
+
+const parseTimes = (text: string): number[] =>
+  text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((time) => Number.isFinite(time) && time >= 0);
+
+// Still with the lowest PSNR, the one worth looking at
+const worstDiff = (variant: PrecisionVariantResult) =>
+  variant.diffs.reduce<PrecisionVariantResult["diffs"][number] | null>(
+    (worst, entry) => (!worst || entry.diff.psnr < worst.diff.psnr ? entry : worst),
+    null
+  );
+
+export const ShaderPrecisionPanel: React.FC<ShaderPrecisionPanelProps> = ({
+  shader,
+  inputValues,
+  width,
+  height,
+}) => {
+  const [enabled, setEnabled] = useState<Record<LowerPrecision, boolean>>({
+    mediump: true,
+    lowp: false,
+  });
+  const [timesText, setTimesText] = useState("0, 1, 5");
+  const [benchWidth, setBenchWidth] = useState(width);
+  const [benchHeight, setBenchHeight] = useState(height);
+  const [frames, setFrames] = useState(60);
+  const [rounds, setRounds] = useState(5);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const [result, setResult] = useState<PrecisionBenchmarkResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Raw shaders carry their own precision statement
+  const isRaw = shader.dialect === "raw";
+  const precisions = LOWER_PRECISIONS.filter((precision) => enabled[precision]);
+
+  const startBenchmark = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: (precisions.length + 1) * rounds });
+
+    try {
+      setResult(
+        await PrecisionBenchmark.run(shader, {
+          width: benchWidth,
+          height: benchHeight,
+          precisions,
+          frames,
+          rounds,
+          times: parseTimes(timesText),
+          inputs: inputValues,
+          signal: controller.signal,
+          onProgress: (done, total) => setProgress({ done, total }),
+        })
+      );
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        alert(
+          `Precision benchmark failed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const numberField = (
+    id: string,
+    label: string,
+    value: number,
+    onChange: (value: number) => void
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={1}
+        value={value}
+        onChange={(e) => onChange(Math.floor(Number(e.target.value) || 0))}
+        disabled={progress !== null}
+        className="h-8"
+      />
+    </div>
+  );
+
+  // Heatmaps are encoded once per result rather than on every render
+  const heatmapUrls = useMemo(
+    () =>
+      new Map(
+        (result?.variants ?? []).map((variant) => {
+          const worst = worstDiff(variant);
+          return [
+            variant.precision,
+            worst && worst.diff.maxDelta > 0
+              ? FrameCapture.toPngDataUrl(worst.diff.heatmap)
+              : null,
+          ];
+        })
+      ),
+    [result]
+  );
+
+  const highpFormat = result?.variants[0].format;
+  // Desktop GPUs usually run mediump and lowp at full precision
+  const emulated =
+    result?.variants
+      .slice(1)
+      .filter(
+        (variant) =>
+          variant.format && variant.format.precision === highpFormat?.precision
+      )
+      .map((variant) => variant.precision) ?? [];
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center gap-2 font-semibold text-sm">
+        <Binary className="w-4 h-4" />
+        Float Precision
+        <span className="font-normal text-xs text-muted-foreground">
+          The shader compiled at highp and lower precisions, benchmarked back to
+          back and diffed against highp
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+        <div className="space-y-1 col-span-2 md:col-span-1">
+          <Label htmlFor="precision-times" className="text-xs">
+            Times (s)
+          </Label>
+          <Input
+            id="precision-times"
+            value={timesText}
+            onChange={(e) => setTimesText(e.target.value)}
+            disabled={progress !== null}
+            className="h-8 font-mono"
+          />
+        </div>
+        {numberField("precision-width", "Width", benchWidth, setBenchWidth)}
+        {numberField("precision-height", "Height", benchHeight, setBenchHeight)}
+        {numberField("precision-frames", "Frames per round", frames, setFrames)}
+        {numberField("precision-rounds", "Rounds", rounds, setRounds)}
+        <div className="flex flex-col gap-2 pb-1">
+          {LOWER_PRECISIONS.map((precision) => (
+            <div key={precision} className="flex items-center gap-2">
+              <Switch
+                id={`precision-${precision}`}
+                checked={enabled[precision]}
+                onCheckedChange={(checked) =>
+                  setEnabled((prev) => ({ ...prev, [precision]: checked }))
+                }
+                disabled={progress !== null}
+              />
+              <Label htmlFor={`precision-${precision}`} className="text-xs font-mono">
+                {precision}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        {progress ? (
+          <>
+            <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+            <span className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Round {progress.done} / {progress.total}
+            </span>
+          </>
+        ) : (
+          <>
+            <Button
+              size="sm"
+              onClick={startBenchmark}
+              disabled={isRaw || precisions.length === 0}
+            >
+              Compare
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {isRaw
+                ? "Raw shaders declare their own precision"
+                : `${rounds} alternating rounds of ${frames} frames per variant`}
+            </span>
+          </>
+        )}
+      </div>
+
+      {result && (
+        <div className="space-y-2">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-xs text-muted-foreground text-left">
+                  <th className="py-2 pr-4 font-medium">Precision</th>
+                  <th className="py-2 pr-4 font-medium">GPU float</th>
+                  <th className="py-2 pr-4 font-medium">Frame time</th>
+                  <th className="py-2 pr-4 font-medium">vs highp</th>
+                  <th className="py-2 pr-4 font-medium">Worst PSNR</th>
+                  <th className="py-2 pr-4 font-medium">Worst SSIM</th>
+                  <th className="py-2 pr-4 font-medium">Diff</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.variants.map((variant, index) => {
+                  const worst = worstDiff(variant);
+                  const safe = PrecisionBenchmark.isSafe(variant);
+                  return (
+                    <tr key={variant.precision} className="border-b last:border-0 font-mono">
+                      <td className="py-2 pr-4">{variant.precision}</td>
+                      <td className="py-2 pr-4">
+                        {variant.format
+                          ? `${variant.format.precision} bits, 2^±${variant.format.rangeMax}`
+                          : "—"}
+                      </td>
+                      {variant.error ? (
+                        <td
+                          colSpan={5}
+                          className="py-2 pr-4 text-destructive font-sans text-xs"
+                          title={variant.error}
+                        >
+                          Failed to compile
+                        </td>
+                      ) : (
+                        <>
+                          <td className="py-2 pr-4">
+                            {variant.medianFrameTime.toFixed(3)} ms
+                          </td>
+                          <td className="py-2 pr-4">
+                            {index === 0 ? "—" : `${variant.speedup.toFixed(2)}×`}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {!worst
+                              ? "—"
+                              : Number.isFinite(worst.diff.psnr)
+                                ? `${worst.diff.psnr.toFixed(1)} dB`
+                                : "∞"}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {worst ? worst.diff.ssim.toFixed(4) : "—"}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {worst && heatmapUrls.get(variant.precision) && (
+                              // eslint-disable-next-line @next/next/no-img-element
+                              <img
+                                src={heatmapUrls.get(variant.precision)!}
+                                alt={`Difference at ${worst.time}s`}
+                                title={`iTime ${worst.time}s, ${(
+                                  worst.diff.changedRatio * 100
+                                ).toFixed(2)}% of pixels changed`}
+                                className="h-16 rounded border"
+                                style={{ imageRendering: "pixelated" }}
+                              />
+                            )}
+                          </td>
+                        </>
+                      )}
+                      <td className="py-2">
+                        {index === 0 ? (
+                          <Badge variant="outline">Reference</Badge>
+                        ) : variant.inconclusive && !variant.error ? (
+                          <Badge
+                            variant="outline"
+                            title="Values qualified as highp in the source stay highp in this build"
+                          >
+                            Inconclusive
+                          </Badge>
+                        ) : (
+                          <Badge variant={safe ? "secondary" : "destructive"}>
+                            {variant.error ? "Failed" : safe ? "Safe" : "Artifacts"}
+                          </Badge>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {result.explicitHighp && (
+            <p className="text-xs text-muted-foreground">
+              The source qualifies some values as highp, which overrides the
+              default precision of each variant; remove those qualifiers to
+              compare the whole shader.
+            </p>
+          )}
+
+          {emulated.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              This GPU runs {emulated.join(" and ")} at full precision, so no
+              visual difference can show here; run the comparison on a mobile GPU
+              to see 16-bit artifacts. Timings still reflect this device.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
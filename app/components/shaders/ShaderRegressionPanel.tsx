@@ -0,0 +1,300 @@
+"use client";
+
+import React, { useState } from "react";
+import { GoldenImage, ShaderDefinition, ShaderInputValue } from "./ShaderViewer";
+import { FrameCapture } from "../../utils/FrameCapture";
+import { ImageDiff, RgbaImage } from "../../utils/ImageDiff";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, ScanEye } from "lucide-react";
+
+interface ShaderRegressionPanelProps {
+  shader: ShaderDefinition;
+  inputValues: Record<string, ShaderInputValue>;
+  // Other shaders to compare against, e.g. the original of an optimized copy
+  candidates: ShaderDefinition[];
+  // Called with a new golden set; without it goldens only last while the panel is open
+  onGoldenImagesChange?: (images: GoldenImage[]) => void;
+}
+
+interface RegressionRow {
+  time: number;
+  width: number;
+  height: number;
+  psnr: number;
+  ssim: number;
+  maxDelta: number;
+  changedRatio: number;
+  heatmapUrl: string;
+}
+
+const GOLDEN_TARGET = "__golden__";
+
+const parseTimes = (text: string): number[] =>
+  text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((time) => Number.isFinite(time) && time >= 0);
+
+export const ShaderRegressionPanel: React.FC<ShaderRegressionPanelProps> = ({
+  shader,
+  inputValues,
+  candidates,
+  onGoldenImagesChange,
+}) => {
+  const [timesText, setTimesText] = useState("0, 1, 5");
+  const [width, setWidth] = useState(320);
+  const [height, setHeight] = useState(180);
+  const [target, setTarget] = useState(GOLDEN_TARGET);
+  const [goldenImages, setGoldenImages] = useState<GoldenImage[]>(
+    shader.goldenImages ?? []
+  );
+  const [results, setResults] = useState<RegressionRow[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const diffRow = (
+    time: number,
+    current: RgbaImage,
+    reference: RgbaImage
+  ): RegressionRow => {
+    const diff = ImageDiff.compare(current, reference);
+    return {
+      time,
+      width: current.width,
+      height: current.height,
+      psnr: diff.psnr,
+      ssim: diff.ssim,
+      maxDelta: diff.maxDelta,
+      changedRatio: diff.changedRatio,
+      heatmapUrl: FrameCapture.toPngDataUrl(diff.heatmap),
+    };
+  };
+
+  const run = async (task: () => Promise<void>) => {
+    setIsRunning(true);
+    try {
+      await task();
+    } catch (error) {
+      alert(
+        `Regression check failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const saveGoldens = () =>
+    run(async () => {
+      const times = parseTimes(timesText);
+      if (times.length === 0) throw new Error("Enter at least one time");
+
+      const stills = await FrameCapture.stills(shader, {
+        width,
+        height,
+        times,
+        inputs: inputValues,
+      });
+      const created = Date.now();
+      const images = stills.map((still, i) => ({
+        time: times[i],
+        width,
+        height,
+        inputValues,
+        dataUrl: FrameCapture.toPngDataUrl(still),
+        created,
+      }));
+
+      setGoldenImages(images);
+      setResults(null);
+      onGoldenImagesChange?.(images);
+    });
+
+  // Each golden is re-rendered with the size and control values it was saved with
+  const compareGoldens = async (): Promise<RegressionRow[]> => {
+    const rows: RegressionRow[] = [];
+    for (const golden of goldenImages) {
+      const [current] = await FrameCapture.stills(shader, {
+        width: golden.width,
+        height: golden.height,
+        times: [golden.time],
+        inputs: golden.inputValues,
+      });
+      const reference = await FrameCapture.fromImageUrl(golden.dataUrl);
+      rows.push(diffRow(golden.time, current, reference));
+    }
+    return rows;
+  };
+
+  const compareShader = async (other: ShaderDefinition): Promise<RegressionRow[]> => {
+    const times = parseTimes(timesText);
+    if (times.length === 0) throw new Error("Enter at least one time");
+
+    const options = { width, height, times, inputs: inputValues };
+    const current = await FrameCapture.stills(shader, options);
+    const reference = await FrameCapture.stills(other, options);
+    return times.map((time, i) => diffRow(time, current[i], reference[i]));
+  };
+
+  const compare = () =>
+    run(async () => {
+      const other = candidates.find((candidate) => candidate.name === target);
+      setResults(other ? await compareShader(other) : await compareGoldens());
+    });
+
+  const numberField = (
+    id: string,
+    label: string,
+    value: number,
+    onChange: (value: number) => void
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={1}
+        value={value}
+        onChange={(e) => onChange(Math.floor(Number(e.target.value) || 0))}
+        disabled={isRunning}
+        className="h-8"
+      />
+    </div>
+  );
+
+  const canCompare =
+    target === GOLDEN_TARGET
+      ? goldenImages.length > 0
+      : candidates.some((candidate) => candidate.name === target);
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center gap-2 font-semibold text-sm">
+        <ScanEye className="w-4 h-4" />
+        Visual Regression
+        <span className="font-normal text-xs text-muted-foreground">
+          {goldenImages.length > 0
+            ? `${goldenImages.length} golden ${
+                goldenImages.length === 1 ? "image" : "images"
+              }, saved ${new Date(goldenImages[0].created).toLocaleString()}`
+            : "No golden images yet"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="regression-times" className="text-xs">
+            Times (s)
+          </Label>
+          <Input
+            id="regression-times"
+            value={timesText}
+            onChange={(e) => setTimesText(e.target.value)}
+            disabled={isRunning}
+            className="h-8 font-mono"
+          />
+        </div>
+        {numberField("regression-width", "Width", width, setWidth)}
+        {numberField("regression-height", "Height", height, setHeight)}
+        <div className="space-y-1">
+          <Label className="text-xs">Compare against</Label>
+          <Select value={target} onValueChange={setTarget} disabled={isRunning}>
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={GOLDEN_TARGET}>Golden images</SelectItem>
+              {candidates.map((candidate) => (
+                <SelectItem key={candidate.name} value={candidate.name}>
+                  {candidate.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={compare} disabled={isRunning || !canCompare}>
+          Compare
+        </Button>
+        <Button variant="outline" size="sm" onClick={saveGoldens} disabled={isRunning}>
+          Save as golden
+        </Button>
+        {isRunning && (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        )}
+        {target === GOLDEN_TARGET && (
+          <span className="text-xs text-muted-foreground">
+            Goldens are compared at their own size and control values
+          </span>
+        )}
+      </div>
+
+      {results && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-muted-foreground text-left">
+                <th className="py-2 pr-4 font-medium">iTime</th>
+                <th className="py-2 pr-4 font-medium">Size</th>
+                <th className="py-2 pr-4 font-medium">PSNR</th>
+                <th className="py-2 pr-4 font-medium">SSIM</th>
+                <th className="py-2 pr-4 font-medium">Changed</th>
+                <th className="py-2 pr-4 font-medium">Diff</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((row, i) => {
+                const pass = ImageDiff.isMatch(row);
+                return (
+                  <tr key={i} className="border-b last:border-0 font-mono">
+                    <td className="py-2 pr-4">{row.time}s</td>
+                    <td className="py-2 pr-4">
+                      {row.width}×{row.height}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {Number.isFinite(row.psnr) ? `${row.psnr.toFixed(1)} dB` : "∞"}
+                    </td>
+                    <td className="py-2 pr-4">{row.ssim.toFixed(4)}</td>
+                    <td className="py-2 pr-4">
+                      {(row.changedRatio * 100).toFixed(2)}% (max {row.maxDelta})
+                    </td>
+                    <td className="py-2 pr-4">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={row.heatmapUrl}
+                        alt={`Difference at ${row.time}s`}
+                        className="h-16 rounded border"
+                        style={{ imageRendering: "pixelated" }}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <Badge variant={pass ? "secondary" : "destructive"}>
+                        {row.maxDelta === 0 ? "Identical" : pass ? "Match" : "Changed"}
+                      </Badge>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pause, Play, StepBack, StepForward } from "lucide-react";
+
+interface ShaderTransportBarProps {
+  // Timeline position in seconds, offset excluded
+  time: number;
+  paused: boolean;
+  speed: number;
+  offset: number;
+  // Seconds per frame step
+  timestep: number;
+  onPausedChange: (paused: boolean) => void;
+  onSeek: (time: number) => void;
+  onStep: (frames: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onOffsetChange: (offset: number) => void;
+}
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+// The scrub range grows in steps of this many seconds as playback passes its end
+const TIMELINE_LENGTH = 60;
+
+export const ShaderTransportBar: React.FC<ShaderTransportBarProps> = ({
+  time,
+  paused,
+  speed,
+  offset,
+  timestep,
+  onPausedChange,
+  onSeek,
+  onStep,
+  onSpeedChange,
+  onOffsetChange,
+}) => {
+  const length = Math.max(
+    TIMELINE_LENGTH,
+    Math.ceil(time / TIMELINE_LENGTH) * TIMELINE_LENGTH
+  );
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap text-sm">
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => onStep(-1)}
+        disabled={!paused}
+        title={paused ? "Previous frame" : "Pause to step frames"}
+      >
+        <StepBack className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => onPausedChange(!paused)}
+        title={paused ? "Play" : "Pause"}
+      >
+        {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => onStep(1)}
+        disabled={!paused}
+        title={paused ? "Next frame" : "Pause to step frames"}
+      >
+        <StepForward className="w-4 h-4" />
+      </Button>
+
+      <Slider
+        value={[Math.min(time, length)]}
+        onValueChange={([value]) => onSeek(value)}
+        min={0}
+        max={length}
+        step={timestep}
+        className="flex-1 min-w-[160px]"
+      />
+      <span
+        className="font-mono text-xs text-muted-foreground w-36 text-right"
+        title="Timeline position, and the iTime the shader sees with the offset added"
+      >
+        {time.toFixed(3)}s
+        {offset !== 0 && ` · iTime ${(time + offset).toFixed(3)}`}
+      </span>
+
+      <Select
+        value={String(speed)}
+        onValueChange={(value) => onSpeedChange(Number(value))}
+      >
+        <SelectTrigger size="sm" className="w-[80px]" title="Playback speed">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PLAYBACK_SPEEDS.map((value) => (
+            <SelectItem key={value} value={String(value)}>
+              {value}×
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-muted-foreground">Offset</span>
+      <Input
+        type="number"
+        min={0}
+        value={offset}
+        onChange={(e) => onOffsetChange(Math.max(0, Number(e.target.value) || 0))}
+        className="w-28 h-8"
+        title="Seconds added to iTime; large offsets such as 10000 expose float precision loss"
+      />
+    </div>
+  );
+};
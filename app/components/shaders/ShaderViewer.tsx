@@ -1,14 +1,44 @@
 "use client";
 
-import React, { useState, useCallback, useRef, useEffect } from "react";
-import { ShaderCanvas, PerformanceMetrics } from "./ShaderCanvas";
+import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import {
+  ShaderCanvas,
+  PerformanceMetrics,
+  ContextEvent,
+  supportsOffscreenRendering,
+} from "./ShaderCanvas";
+import { ShaderInputControls } from "./ShaderInputControls";
+import { ShaderCapturePanel } from "./ShaderCapturePanel";
+import { ShaderRegressionPanel } from "./ShaderRegressionPanel";
+import { ShaderPrecisionPanel } from "./ShaderPrecisionPanel";
+import { ShaderTransportBar } from "./ShaderTransportBar";
 import { PerformanceMonitor } from "../PerformanceMonitor";
 import { PerformanceOverlay } from "../PerformanceOverlay";
 import { ResolutionBenchmark } from "../ResolutionBenchmark";
+import { GlslCostEstimator } from "../../utils/GlslCostEstimator";
+import { SHADER_DIALECTS, ShaderDialect } from "../../utils/ShaderCompact";
+import { IsfConverter } from "../../utils/IsfConverter";
+import { defaultInputValue, UpscaleFilter } from "../../utils/ShaderRenderer";
+import { StressMode } from "../../utils/StressController";
+import { PlaybackTransport } from "../../utils/PlaybackClock";
+import { MouseTrajectory } from "../../utils/ShadertoyMouse";
+import {
+  DEFAULT_DETERMINISTIC_SETTINGS,
+  DeterministicClock,
+  DeterministicSettings,
+} from "../../utils/DeterministicClock";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Eye,
   EyeOff,
@@ -19,6 +49,17 @@ import {
   Download,
   Copy,
   Code,
+  FileDown,
+  Timer,
+  Film,
+  Unplug,
+  AlertTriangle,
+  Cpu,
+  ScanEye,
+  Binary,
+  MousePointer2,
+  Repeat,
+  Upload,
 } from "lucide-react";
 
 interface ShaderViewerProps {
@@ -27,7 +68,86 @@ interface ShaderViewerProps {
   height?: number;
   showPerformance?: boolean;
   showCode?: boolean;
-  onMetricsCapture?: (shader: string, metrics: PerformanceMetrics) => void;
+  onMetricsCapture?: (
+    shader: string,
+    metrics: PerformanceMetrics,
+    inputValues: Record<string, ShaderInputValue>
+  ) => void;
+  // Called with every control change, e.g. to persist a stored shader's values
+  onInputValuesChange?: (values: Record<string, ShaderInputValue>) => void;
+  // Render through the shared context pool, for views showing several shaders
+  pooled?: boolean;
+  // Shaders the regression check can compare against
+  regressionCandidates?: ShaderDefinition[];
+  // Called when new golden images are saved, to persist them
+  onGoldenImagesChange?: (images: GoldenImage[]) => void;
+}
+
+export type ShaderBufferId = "A" | "B" | "C" | "D";
+
+export interface ShaderSamplerSettings {
+  filter: "nearest" | "linear" | "mipmap";
+  wrap: "clamp" | "repeat";
+  vflip: boolean;
+}
+
+export interface ShaderBufferInput {
+  type: "buffer";
+  buffer: ShaderBufferId;
+  sampler?: ShaderSamplerSettings;
+}
+
+// Local image file, stored inline as a data URL so it persists with the shader
+export interface ShaderTextureInput {
+  type: "texture";
+  name: string;
+  dataUrl: string;
+  sampler?: ShaderSamplerSettings;
+}
+
+export type ShaderChannelInput = ShaderBufferInput | ShaderTextureInput;
+
+// Shadertoy Buffer A–D pass, rendered into a double-buffered float framebuffer
+export interface ShaderBufferPass {
+  id: ShaderBufferId;
+  fragmentShader: string;
+  channels?: (ShaderChannelInput | null)[];
+}
+
+// Editable uniform exposed as a control (ISF input types)
+export type ShaderInputType =
+  | "float"
+  | "long"
+  | "bool"
+  | "event"
+  | "color"
+  | "point2D";
+
+export type ShaderInputValue = number | boolean | number[];
+
+export interface ShaderInput {
+  name: string;
+  type: ShaderInputType;
+  label?: string;
+  default?: ShaderInputValue;
+  min?: number | number[];
+  max?: number | number[];
+  // long inputs: allowed values and their labels
+  values?: number[];
+  labels?: string[];
+}
+
+// Reference still for visual regression checks
+export interface GoldenImage {
+  // iTime in seconds
+  time: number;
+  width: number;
+  height: number;
+  // Control values the still was rendered with
+  inputValues?: Record<string, ShaderInputValue>;
+  // PNG data URL
+  dataUrl: string;
+  created: number;
 }
 
 export interface ShaderDefinition {
@@ -35,10 +155,34 @@ export interface ShaderDefinition {
   author?: string;
   description?: string;
   fragmentShader: string;
+  // Shadertoy Common tab, prepended to every pass
+  common?: string;
+  // iChannel0..3 wiring for the Image pass
+  channels?: (ShaderChannelInput | null)[];
+  // Buffer passes, rendered in array order before the Image pass
+  buffers?: ShaderBufferPass[];
   tags?: string[];
+  // Input convention (uniform names and entry point); defaults to "shadertoy"
+  dialect?: ShaderDialect;
+  // Uniform controls shown in the viewer
+  inputs?: ShaderInput[];
+  // Control values last set in the viewer, by uniform name
+  inputValues?: Record<string, ShaderInputValue>;
+  // Usage terms, e.g. carried over from a Shadertoy import
+  license?: string;
+  // Lint rule ids this shader opts out of
+  suppressedLintRules?: string[];
   thumbnailUrl?: string;
+  // iTime the gallery thumbnail is rendered at, in seconds
+  thumbnailTime?: number;
+  goldenImages?: GoldenImage[];
 }
 
+// Fractions of the canvas size the shader can render at
+const RENDER_SCALES = [0.25, 0.5, 0.75, 1, 1.5, 2];
+// Fixed draw multipliers offered by stress mode, besides auto
+const STRESS_MULTIPLIERS = [4, 16, 64, 256];
+
 export const ShaderViewer: React.FC<ShaderViewerProps> = ({
   shader,
   width = 800,
@@ -46,9 +190,71 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
   showPerformance = true,
   showCode = false,
   onMetricsCapture,
+  onInputValuesChange,
+  pooled = false,
+  regressionCandidates = [],
+  onGoldenImagesChange,
 }) => {
   const [metrics, setMetrics] = useState<PerformanceMetrics | null>(null);
+  const costEstimate = useMemo(
+    () => GlslCostEstimator.estimateShader(shader),
+    [shader]
+  );
   const [isCodeVisible, setIsCodeVisible] = useState(showCode);
+  const [isCaptureVisible, setIsCaptureVisible] = useState(false);
+  const [isRegressionVisible, setIsRegressionVisible] = useState(false);
+  const [isPrecisionVisible, setIsPrecisionVisible] = useState(false);
+  const [renderScale, setRenderScale] = useState(1);
+  const [contextLost, setContextLost] = useState(false);
+  const [contextRestores, setContextRestores] = useState(0);
+  const [forceContextLoss, setForceContextLoss] = useState(false);
+  // Render loop in a worker, to measure main-thread interference
+  const [offscreen, setOffscreen] = useState(false);
+  const [stress, setStress] = useState<StressMode | undefined>(undefined);
+  const [upscaleFilter, setUpscaleFilter] = useState<UpscaleFilter>("linear");
+  const [inputValues, setInputValues] = useState<
+    Record<string, ShaderInputValue>
+  >(shader.inputValues ?? {});
+  const [detectedInputs, setDetectedInputs] = useState<ShaderInput[]>([]);
+  const [shaderShown, setShaderShown] = useState(shader);
+  // Controls start from the saved values whenever a different shader is shown
+  if (shaderShown !== shader) {
+    setShaderShown(shader);
+    setInputValues(shader.inputValues ?? {});
+  }
+
+  // Declared inputs first, then controls for the shader's own uniforms
+  const controls = useMemo(
+    () => [
+      ...(shader.inputs ?? []),
+      ...detectedInputs.filter(
+        (input) => !shader.inputs?.some((i) => i.name === input.name)
+      ),
+    ],
+    [shader.inputs, detectedInputs]
+  );
+
+  // Every control's value, defaults included, so exports can be reproduced
+  const currentValues = useMemo(
+    () => ({
+      ...Object.fromEntries(
+        controls.map((input) => [input.name, defaultInputValue(input)])
+      ),
+      ...inputValues,
+    }),
+    [controls, inputValues]
+  );
+  const currentValuesRef = useRef(currentValues);
+
+  useEffect(() => {
+    currentValuesRef.current = currentValues;
+  }, [currentValues]);
+
+  const handleInputChange = (name: string, value: ShaderInputValue) => {
+    const next = { ...inputValues, [name]: value };
+    setInputValues(next);
+    onInputValuesChange?.(next);
+  };
   const [isRecording, setIsRecording] = useState(false);
   const [recordedMetrics, setRecordedMetrics] = useState<PerformanceMetrics[]>(
     []
@@ -57,6 +263,29 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
   const [fullscreenDimensions, setFullscreenDimensions] = useState({ width: 800, height: 600 });
   const containerRef = useRef<HTMLDivElement>(null);
   const resizeShaderRef = useRef<((w: number, h: number) => void) | null>(null);
+  const renderFrameRef = useRef<((frame: number) => Uint8Array | null) | null>(
+    null
+  );
+  const [deterministic, setDeterministic] =
+    useState<DeterministicSettings | null>(null);
+  const [targetFrame, setTargetFrame] = useState(60);
+  const [frameChecksum, setFrameChecksum] = useState<{
+    frame: number;
+    checksum: string;
+  } | null>(null);
+  // Transport bar
+  const [paused, setPaused] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [timeOffset, setTimeOffset] = useState(0);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const transportRef = useRef<PlaybackTransport | null>(null);
+  // Recorded pointer input; replayed as iMouse so every run sees the same input
+  const [mouseTrajectory, setMouseTrajectory] = useState<MouseTrajectory | null>(
+    null
+  );
+  const [isRecordingMouse, setIsRecordingMouse] = useState(false);
+  const [replayMouse, setReplayMouse] = useState(false);
+  const trajectoryInputRef = useRef<HTMLInputElement>(null);
 
   const handlePerformanceUpdate = useCallback(
     (newMetrics: PerformanceMetrics) => {
@@ -67,7 +296,7 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
       }
 
       if (onMetricsCapture) {
-        onMetricsCapture(shader.name, newMetrics);
+        onMetricsCapture(shader.name, newMetrics, currentValuesRef.current);
       }
     },
     [shader.name, onMetricsCapture, isRecording]
@@ -100,6 +329,8 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
         droppedFrames: acc.droppedFrames + m.droppedFrames,
         totalFrames: m.totalFrames,
         resolution: m.resolution,
+        renderResolution: m.renderResolution,
+        renderScale: m.renderScale,
         pixelCount: m.pixelCount,
       }),
       {
@@ -111,6 +342,8 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
         droppedFrames: 0,
         totalFrames: 0,
         resolution: { width: 0, height: 0 },
+        renderResolution: { width: 0, height: 0 },
+        renderScale: 1,
         pixelCount: 0,
       }
     );
@@ -125,6 +358,8 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
       droppedFrames: sum.droppedFrames,
       totalFrames: sum.totalFrames,
       resolution: sum.resolution,
+      renderResolution: sum.renderResolution,
+      renderScale: sum.renderScale,
       pixelCount: sum.pixelCount,
     };
   };
@@ -136,6 +371,17 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
       shader: shader.name,
       timestamp: new Date().toISOString(),
       metrics,
+      estimatedCost: costEstimate,
+      inputValues: currentValues,
+      deterministic,
+      // Timeline position when exported; metrics.iTime includes the offset
+      playback: {
+        time: playbackTime,
+        paused,
+        speed: playbackSpeed,
+        offset: timeOffset,
+      },
+      mouseReplay: replayMouse ? mouseTrajectory : null,
       recordedSamples: recordedMetrics.length,
       averageRecordedMetrics:
         recordedMetrics.length > 0
@@ -157,10 +403,108 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
     URL.revokeObjectURL(url);
   };
 
+  // Shadertoy and ISF shaders can be written out as ISF .fs files
+  const canExportIsf =
+    (shader.dialect ?? "shadertoy") === "shadertoy" || shader.dialect === "isf";
+
+  const exportIsf = () => {
+    try {
+      const { source, warnings } = IsfConverter.exportShader(shader);
+      const blob = new Blob([source], { type: "text/plain" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${shader.name.replace(/\s+/g, "_")}.fs`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      if (warnings.length > 0) {
+        alert(`Exported with warnings:\n${warnings.join("\n")}`);
+      }
+    } catch (error) {
+      alert(
+        `Failed to export ISF: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
   const handleResize = useCallback((resizeFn: (w: number, h: number) => void) => {
     resizeShaderRef.current = resizeFn;
   }, []);
 
+  const handleRenderFrame = useCallback(
+    (renderFrameFn: (frame: number) => Uint8Array | null) => {
+      renderFrameRef.current = renderFrameFn;
+    },
+    []
+  );
+
+  const handleTransport = useCallback((transport: PlaybackTransport) => {
+    transportRef.current = transport;
+  }, []);
+
+  const handleMouseRecorded = useCallback((trajectory: MouseTrajectory) => {
+    setMouseTrajectory(trajectory);
+    setReplayMouse(false);
+  }, []);
+
+  const saveTrajectory = () => {
+    if (!mouseTrajectory) return;
+    const blob = new Blob([JSON.stringify(mouseTrajectory, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${shader.name.replace(/\s+/g, "_")}_mouse.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadTrajectory = async (file: File) => {
+    try {
+      const trajectory = JSON.parse(await file.text()) as MouseTrajectory;
+      if (
+        !(trajectory.width > 0) ||
+        !(trajectory.height > 0) ||
+        !Array.isArray(trajectory.samples)
+      ) {
+        throw new Error("Not a mouse trajectory");
+      }
+      setMouseTrajectory(trajectory);
+      setReplayMouse(true);
+    } catch (error) {
+      alert(
+        `Failed to load mouse trajectory: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
+  const handleContextEvent = useCallback((event: ContextEvent) => {
+    setContextLost(event.type === "lost");
+    if (event.type === "restored") setContextRestores((n) => n + 1);
+  }, []);
+
+  const toggleDeterministic = () => {
+    setDeterministic(deterministic ? null : DEFAULT_DETERMINISTIC_SETTINGS);
+    setFrameChecksum(null);
+  };
+
+  // Checksums of the same frame match across runs when nothing changed
+  const renderTargetFrame = () => {
+    const pixels = renderFrameRef.current?.(targetFrame);
+    if (pixels) {
+      setFrameChecksum({
+        frame: targetFrame,
+        checksum: DeterministicClock.checksum(pixels),
+      });
+    }
+  };
+
   const enterFullscreen = useCallback(async () => {
     const container = containerRef.current;
     if (!container) return;
@@ -238,6 +582,16 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
             {shader.author && (
               <p className="text-sm text-muted-foreground">by {shader.author}</p>
             )}
+            {shader.dialect && shader.dialect !== "shadertoy" && (
+              <p className="text-xs text-muted-foreground">
+                Dialect: {SHADER_DIALECTS[shader.dialect]}
+              </p>
+            )}
+            {shader.license && (
+              <p className="text-xs text-muted-foreground">
+                License: {shader.license}
+              </p>
+            )}
             {shader.description && (
               <p className="text-sm text-muted-foreground leading-relaxed">
                 {shader.description}
@@ -247,6 +601,60 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
 
           {/* Controls */}
           <div className="flex gap-2 flex-wrap">
+            <Select
+              value={String(renderScale)}
+              onValueChange={(value) => setRenderScale(Number(value))}
+            >
+              <SelectTrigger size="sm" className="w-[90px]" title="Render scale">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RENDER_SCALES.map((scale) => (
+                  <SelectItem key={scale} value={String(scale)}>
+                    {scale}×
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {renderScale !== 1 && (
+              <Select
+                value={upscaleFilter}
+                onValueChange={(value) => setUpscaleFilter(value as UpscaleFilter)}
+              >
+                <SelectTrigger size="sm" className="w-[110px]" title="Upscale filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="linear">Bilinear</SelectItem>
+                  <SelectItem value="nearest">Nearest</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <Select
+              value={stress === undefined ? "off" : String(stress)}
+              onValueChange={(value) =>
+                setStress(
+                  value === "off" ? undefined : value === "auto" ? "auto" : Number(value)
+                )
+              }
+            >
+              <SelectTrigger
+                size="sm"
+                className="w-[120px]"
+                title="Stress mode: draw every pass several times per frame to measure past the vsync cap"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">No stress</SelectItem>
+                {STRESS_MULTIPLIERS.map((multiplier) => (
+                  <SelectItem key={multiplier} value={String(multiplier)}>
+                    Stress ×{multiplier}
+                  </SelectItem>
+                ))}
+                <SelectItem value="auto">Stress auto</SelectItem>
+              </SelectContent>
+            </Select>
             <Button
               variant="outline"
               size="sm"
@@ -304,6 +712,66 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
               <Download className="w-4 h-4 mr-2" />
               Export
             </Button>
+            <Button
+              variant={deterministic ? "default" : "outline"}
+              size="sm"
+              onClick={toggleDeterministic}
+              title="Fixed timestep, pinned date and mouse for reproducible frames"
+            >
+              <Timer className="w-4 h-4 mr-2" />
+              Fixed Step
+            </Button>
+            <Button
+              variant={offscreen ? "default" : "outline"}
+              size="sm"
+              onClick={() => setOffscreen(!offscreen)}
+              disabled={!supportsOffscreenRendering()}
+              title="Render in a worker on an OffscreenCanvas, away from main-thread UI work"
+            >
+              <Cpu className="w-4 h-4 mr-2" />
+              Worker
+            </Button>
+            <Button
+              variant={isCaptureVisible ? "default" : "outline"}
+              size="sm"
+              onClick={() => setIsCaptureVisible(!isCaptureVisible)}
+            >
+              <Film className="w-4 h-4 mr-2" />
+              Capture
+            </Button>
+            <Button
+              variant={isRegressionVisible ? "default" : "outline"}
+              size="sm"
+              onClick={() => setIsRegressionVisible(!isRegressionVisible)}
+              title="Compare rendered stills against golden images or another shader"
+            >
+              <ScanEye className="w-4 h-4 mr-2" />
+              Regression
+            </Button>
+            <Button
+              variant={isPrecisionVisible ? "default" : "outline"}
+              size="sm"
+              onClick={() => setIsPrecisionVisible(!isPrecisionVisible)}
+              title="Benchmark and diff the shader at highp, mediump and lowp"
+            >
+              <Binary className="w-4 h-4 mr-2" />
+              Precision
+            </Button>
+            <Button
+              variant={forceContextLoss ? "destructive" : "ghost"}
+              size="sm"
+              onClick={() => setForceContextLoss(!forceContextLoss)}
+              title="Debug: simulate a GPU reset through WEBGL_lose_context"
+            >
+              <Unplug className="w-4 h-4 mr-2" />
+              {forceContextLoss ? "Restore Context" : "Lose Context"}
+            </Button>
+            {canExportIsf && (
+              <Button variant="outline" size="sm" onClick={exportIsf}>
+                <FileDown className="w-4 h-4 mr-2" />
+                ISF
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -315,12 +783,58 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
           <div className="border-2 rounded-lg overflow-hidden bg-black">
             <ShaderCanvas
               fragmentShader={shader.fragmentShader}
+              common={shader.common}
+              channels={shader.channels}
+              buffers={shader.buffers}
+              dialect={shader.dialect}
+              inputs={shader.inputs}
+              inputValues={inputValues}
               width={isFullscreen ? fullscreenDimensions.width : width}
               height={isFullscreen ? fullscreenDimensions.height : height}
               onPerformanceUpdate={handlePerformanceUpdate}
               onResize={handleResize}
+              onInputsDetected={setDetectedInputs}
+              deterministic={deterministic ?? undefined}
+              onRenderFrame={handleRenderFrame}
+              renderScale={renderScale}
+              upscaleFilter={upscaleFilter}
+              onContextEvent={handleContextEvent}
+              forceContextLoss={forceContextLoss}
+              pooled={pooled}
+              offscreen={offscreen}
+              stress={stress}
+              paused={paused}
+              speed={playbackSpeed}
+              timeOffset={timeOffset}
+              onTransport={handleTransport}
+              onTimeUpdate={setPlaybackTime}
+              mouseReplay={
+                replayMouse && mouseTrajectory ? mouseTrajectory : undefined
+              }
+              recordMouse={isRecordingMouse}
+              onMouseRecorded={handleMouseRecorded}
             />
           </div>
+          {contextLost && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/80 p-6 text-center text-white">
+              <AlertTriangle className="w-8 h-8 text-yellow-400" />
+              <p className="font-semibold">WebGL context lost</p>
+              <p className="text-sm text-white/70 max-w-md">
+                The GPU was reset or the browser reclaimed the context. Rendering
+                resumes once it is restored; the loss is recorded in exported
+                metrics.
+              </p>
+            </div>
+          )}
+          {!contextLost && contextRestores > 0 && (
+            <Badge
+              variant="secondary"
+              className="absolute bottom-3 left-3 font-mono"
+              title="Programs, buffers and timer queries were rebuilt after a context loss"
+            >
+              Context restored{contextRestores > 1 && ` ×${contextRestores}`}
+            </Badge>
+          )}
           {isRecording && (
             <Badge
               variant="destructive"
@@ -333,6 +847,183 @@ export const ShaderViewer: React.FC<ShaderViewerProps> = ({
           <PerformanceOverlay metrics={metrics} isFullscreen={isFullscreen} />
         </div>
 
+        {/* Transport */}
+        {!isFullscreen && (
+          <ShaderTransportBar
+            time={playbackTime}
+            paused={paused}
+            speed={playbackSpeed}
+            offset={timeOffset}
+            timestep={(deterministic ?? DEFAULT_DETERMINISTIC_SETTINGS).timestep}
+            onPausedChange={setPaused}
+            onSeek={(time) => transportRef.current?.seek(time)}
+            onStep={(frames) => transportRef.current?.step(frames)}
+            onSpeedChange={setPlaybackSpeed}
+            onOffsetChange={setTimeOffset}
+          />
+        )}
+
+        {/* Mouse Recording */}
+        {!isFullscreen && (
+          <div className="flex items-center gap-2 flex-wrap text-sm">
+            <span className="text-muted-foreground">iMouse</span>
+            <Button
+              variant={isRecordingMouse ? "destructive" : "outline"}
+              size="sm"
+              onClick={() => setIsRecordingMouse(!isRecordingMouse)}
+              disabled={replayMouse}
+              title="Record pointer input against the timeline"
+            >
+              {isRecordingMouse ? (
+                <>
+                  <Square className="w-4 h-4 mr-2 fill-current" />
+                  Stop
+                </>
+              ) : (
+                <>
+                  <MousePointer2 className="w-4 h-4 mr-2" />
+                  Record
+                </>
+              )}
+            </Button>
+            <Button
+              variant={replayMouse ? "default" : "outline"}
+              size="sm"
+              onClick={() => setReplayMouse(!replayMouse)}
+              disabled={!mouseTrajectory || isRecordingMouse}
+              title="Replay the recording as iMouse, looping over its length"
+            >
+              <Repeat className="w-4 h-4 mr-2" />
+              Replay
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={saveTrajectory}
+              disabled={!mouseTrajectory}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => trajectoryInputRef.current?.click()}
+              disabled={isRecordingMouse}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Load
+            </Button>
+            <input
+              ref={trajectoryInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadTrajectory(file);
+                e.target.value = "";
+              }}
+            />
+            {mouseTrajectory && (
+              <span className="font-mono text-xs text-muted-foreground">
+                {mouseTrajectory.samples.length} events ·{" "}
+                {mouseTrajectory.duration.toFixed(2)}s ·{" "}
+                {mouseTrajectory.width}×{mouseTrajectory.height}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Deterministic Frame Render */}
+        {deterministic && !isFullscreen && (
+          <div className="flex items-center gap-2 flex-wrap text-sm">
+            <span className="text-muted-foreground">Render frame</span>
+            <Input
+              type="number"
+              min={0}
+              value={targetFrame}
+              onChange={(e) =>
+                setTargetFrame(Math.max(0, Math.floor(Number(e.target.value) || 0)))
+              }
+              className="w-24 h-8"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={renderTargetFrame}
+              disabled={offscreen}
+              title={offscreen ? "Frames can't be read back from the worker" : undefined}
+            >
+              Render
+            </Button>
+            {frameChecksum && (
+              <span className="font-mono text-xs text-muted-foreground">
+                Frame {frameChecksum.frame} · iTime{" "}
+                {(
+                  deterministic.startTime +
+                  timeOffset +
+                  frameChecksum.frame * deterministic.timestep
+                ).toFixed(3)}
+                s · checksum {frameChecksum.checksum}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Frame Capture */}
+        {isCaptureVisible && !isFullscreen && (
+          <ShaderCapturePanel
+            shader={shader}
+            inputValues={currentValues}
+            clock={
+              replayMouse && mouseTrajectory
+                ? {
+                    ...(deterministic ?? DEFAULT_DETERMINISTIC_SETTINGS),
+                    trajectory: mouseTrajectory,
+                  }
+                : deterministic ?? undefined
+            }
+            width={width}
+            height={height}
+          />
+        )}
+
+        {/* Visual Regression */}
+        {isRegressionVisible && !isFullscreen && (
+          <ShaderRegressionPanel
+            key={shader.name}
+            shader={shader}
+            inputValues={currentValues}
+            candidates={regressionCandidates.filter(
+              (candidate) => candidate.name !== shader.name
+            )}
+            onGoldenImagesChange={onGoldenImagesChange}
+          />
+        )}
+
+        {/* Float Precision */}
+        {isPrecisionVisible && !isFullscreen && (
+          <ShaderPrecisionPanel
+            key={shader.name}
+            shader={shader}
+            inputValues={currentValues}
+            width={width}
+            height={height}
+          />
+        )}
+
+        {/* Input Controls */}
+        {controls.length > 0 && !isFullscreen && (
+          <ShaderInputControls
+            inputs={controls}
+            values={inputValues}
+            onChange={handleInputChange}
+            width={width}
+            height={height}
+          />
+        )}
+
         {/* Performance Metrics */}
         {showPerformance && !isFullscreen && (
           <>
@@ -374,6 +374,47 @@ void mainImage(out vec4 fragColor, in vec2 fragCoord) {
     col += vec3(0.0, 0.1, 0.3) * r * 0.5;
     
     fragColor = vec4(col, 1.0);
+}
+    `,
+  },
+  {
+    name: "Feedback Trails",
+    author: "Example",
+    description:
+      "Multipass ping-pong feedback - Buffer A accumulates a fading trail that the Image pass tone-maps",
+    tags: ["multipass", "feedback", "simulation"],
+    buffers: [
+      {
+        id: "A",
+        channels: [{ type: "buffer", buffer: "A" }],
+        fragmentShader: `
+void mainImage(out vec4 fragColor, in vec2 fragCoord) {
+    vec2 uv = fragCoord / iResolution.xy;
+
+    // Previous frame of this buffer, slightly zoomed for a drifting trail
+    vec2 prevUv = (uv - 0.5) * 0.995 + 0.5;
+    vec3 prev = texture(iChannel0, prevUv).rgb * 0.97;
+
+    vec2 p = (fragCoord - 0.5 * iResolution.xy) / iResolution.y;
+    vec2 orb = 0.35 * vec2(cos(iTime * 1.3), sin(iTime * 1.7));
+    float glow = 0.004 / dot(p - orb, p - orb);
+    vec3 col = glow * (0.5 + 0.5 * cos(iTime + vec3(0.0, 2.0, 4.0)));
+
+    fragColor = vec4(prev + col, 1.0);
+}
+        `,
+      },
+    ],
+    channels: [{ type: "buffer", buffer: "A" }],
+    fragmentShader: `
+void mainImage(out vec4 fragColor, in vec2 fragCoord) {
+    vec2 uv = fragCoord / iResolution.xy;
+    vec3 col = texture(iChannel0, uv).rgb;
+
+    // Reinhard tone mapping of the accumulated HDR buffer
+    col = col / (1.0 + col);
+
+    fragColor = vec4(pow(col, vec3(0.4545)), 1.0);
 }
     `,
   },
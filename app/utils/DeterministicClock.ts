@@ -0,0 +1,90 @@
+/**
+ * Fixed-timestep clock for reproducible renders
+ * Every uniform is a pure function of the frame number, so two runs of the
+ * same shader see the same uniform stream and produce the same pixels
+ */
+
+import { ShaderInputValue } from "../components/shaders/ShaderViewer";
+import { FrameUniforms } from "./ShaderRenderer";
+import { MouseTrajectory, ShadertoyMouse } from "./ShadertoyMouse";
+
+// iMouse from this frame on, until the next keyframe
+export interface MouseKeyframe {
+  frame: number;
+  mouse: [number, number, number, number];
+}
+
+export interface DeterministicSettings {
+  // Seconds per frame
+  timestep: number;
+  // iTime of frame 0
+  startTime: number;
+  // iDate of frame 0: year, month (0-based), day, seconds since midnight
+  date: [number, number, number, number];
+  mouse?: MouseKeyframe[];
+  // Recorded pointer input, replayed by elapsed time; overrides mouse keyframes
+  trajectory?: MouseTrajectory;
+}
+
+export const DEFAULT_DETERMINISTIC_SETTINGS: DeterministicSettings = {
+  timestep: 1 / 60,
+  startTime: 0,
+  date: [2000, 0, 1, 0],
+};
+
+export class DeterministicClock {
+  /**
+   * Uniforms of frame N
+   * size is the canvas size a recorded trajectory is scaled to
+   */
+  static frameUniforms(
+    settings: DeterministicSettings,
+    frame: number,
+    inputs?: Record<string, ShaderInputValue>,
+    size?: { width: number; height: number }
+  ): FrameUniforms {
+    const elapsed = frame * settings.timestep;
+    const [year, month, day, seconds] = settings.date;
+
+    return {
+      time: settings.startTime + elapsed,
+      timeDelta: frame === 0 ? 0 : settings.timestep,
+      frame,
+      mouse:
+        settings.trajectory && size
+          ? ShadertoyMouse.replay(
+              settings.trajectory,
+              elapsed,
+              elapsed - settings.timestep,
+              size.width,
+              size.height
+            )
+          : this.mouseAt(settings.mouse ?? [], frame),
+      date: [year, month, day, seconds + elapsed],
+      inputs,
+    };
+  }
+
+  /**
+   * FNV-1a hash of a frame's pixels, for comparing runs at a glance
+   */
+  static checksum(pixels: Uint8Array): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < pixels.length; i++) {
+      hash ^= pixels[i];
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+  }
+
+  private static mouseAt(
+    keyframes: MouseKeyframe[],
+    frame: number
+  ): [number, number, number, number] {
+    const active = keyframes
+      .filter((keyframe) => keyframe.frame <= frame)
+      .sort((a, b) => a.frame - b.frame)
+      .pop();
+    return active ? [...active.mouse] : [0, 0, 0, 0];
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Offline frame capture to a PNG sequence (zip), WebM video, thumbnail or raw pixels
+ * Renders on its own canvas at the requested resolution with the deterministic
+ * clock, so every frame is exact however long the shader takes to draw
+ */
+
+import { ShaderInputValue } from "../components/shaders/ShaderViewer";
+import { ShaderRenderer, ShaderRendererSource } from "./ShaderRenderer";
+import {
+  DEFAULT_DETERMINISTIC_SETTINGS,
+  DeterministicSettings,
+} from "./DeterministicClock";
+import { ZipArchive, ZipEntry } from "./ZipArchive";
+import { ImageDiff, RgbaImage } from "./ImageDiff";
+
+export type CaptureFormat = "png" | "webm";
+
+export interface CaptureOptions {
+  format: CaptureFormat;
+  width: number;
+  height: number;
+  // Inclusive frame range of the deterministic clock
+  startFrame: number;
+  endFrame: number;
+  // Frames per second; the clock advances 1 / fps per frame
+  fps: number;
+  inputs?: Record<string, ShaderInputValue>;
+  // Start time, date and scripted mouse; the timestep comes from fps
+  clock?: DeterministicSettings;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ThumbnailOptions {
+  width: number;
+  height: number;
+  // iTime of the thumbnail in seconds
+  time: number;
+  inputs?: Record<string, ShaderInputValue>;
+}
+
+export interface StillsOptions {
+  width: number;
+  height: number;
+  // iTime of each still in seconds
+  times: number[];
+  inputs?: Record<string, ShaderInputValue>;
+}
+
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+const MAX_CAPTURE_SIZE = 4096;
+// Buffers are stepped at this rate up to a thumbnail or still's time
+const THUMBNAIL_FPS = 60;
+
+export class FrameCapture {
+  /**
+   * Whether this browser can record WebM from a canvas
+   */
+  static supportsWebm(): boolean {
+    return this.webmType() !== null;
+  }
+
+  /**
+   * Render the frame range and return the zip or video
+   * Throws on invalid options, compile errors or cancellation
+   */
+  static async capture(
+    source: ShaderRendererSource,
+    options: CaptureOptions
+  ): Promise<Blob> {
+    this.validate(options);
+
+    const clock: DeterministicSettings = {
+      ...(options.clock ?? DEFAULT_DETERMINISTIC_SETTINGS),
+      timestep: 1 / options.fps,
+    };
+
+    return this.withRenderer(
+      source,
+      options.width,
+      options.height,
+      (canvas, renderer) =>
+        options.format === "png"
+          ? this.capturePng(canvas, renderer, clock, options)
+          : this.captureWebm(canvas, renderer, clock, options)
+    );
+  }
+
+  /**
+   * Render a single still at the given iTime as a JPEG data URL
+   */
+  static async thumbnail(
+    source: ShaderRendererSource,
+    options: ThumbnailOptions
+  ): Promise<string> {
+    const clock: DeterministicSettings = {
+      ...DEFAULT_DETERMINISTIC_SETTINGS,
+      timestep: 1 / THUMBNAIL_FPS,
+    };
+    const frame = Math.max(0, Math.round(options.time * THUMBNAIL_FPS));
+
+    return this.withRenderer(
+      source,
+      options.width,
+      options.height,
+      async (canvas, renderer) => {
+        renderer.renderFrame(frame, clock, options.inputs);
+        return canvas.toDataURL("image/jpeg", 0.85);
+      }
+    );
+  }
+
+  /**
+   * Render stills at the given iTimes and read back their pixels, top row first
+   * The same times and size always give the same pixels on the same GPU
+   */
+  static async stills(
+    source: ShaderRendererSource,
+    options: StillsOptions
+  ): Promise<RgbaImage[]> {
+    this.validateSize(options.width, options.height);
+
+    const clock: DeterministicSettings = {
+      ...DEFAULT_DETERMINISTIC_SETTINGS,
+      timestep: 1 / THUMBNAIL_FPS,
+    };
+
+    return this.withRenderer(
+      source,
+      options.width,
+      options.height,
+      async (_canvas, renderer) =>
+        options.times.map((time) => {
+          renderer.renderFrame(
+            Math.max(0, Math.round(time * THUMBNAIL_FPS)),
+            clock,
+            options.inputs
+          );
+          return ImageDiff.flipRows({
+            width: options.width,
+            height: options.height,
+            data: renderer.readPixels(),
+          });
+        })
+    );
+  }
+
+  /**
+   * Encode pixels as a PNG data URL
+   */
+  static toPngDataUrl(image: RgbaImage): string {
+    const canvas = document.createElement("canvas");
+    canvas.width = image.width;
+    canvas.height = image.height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("2D canvas not supported");
+    ctx.putImageData(
+      new ImageData(new Uint8ClampedArray(image.data), image.width, image.height),
+      0,
+      0
+    );
+    return canvas.toDataURL("image/png");
+  }
+
+  /**
+   * Decode an image URL (e.g. a stored PNG) to pixels, top row first
+   */
+  static async fromImageUrl(url: string): Promise<RgbaImage> {
+    const bitmap = await createImageBitmap(await (await fetch(url)).blob());
+    try {
+      const canvas = document.createElement("canvas");
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) throw new Error("2D canvas not supported");
+      ctx.drawImage(bitmap, 0, 0);
+
+      const { data } = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+      return { width: bitmap.width, height: bitmap.height, data };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * Run fn with a renderer on a detached canvas, releasing its context afterwards
+   */
+  private static async withRenderer<T>(
+    source: ShaderRendererSource,
+    width: number,
+    height: number,
+    fn: (canvas: HTMLCanvasElement, renderer: ShaderRenderer) => Promise<T>
+  ): Promise<T> {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+
+    const gl = canvas.getContext("webgl2", {
+      alpha: false,
+      antialias: false,
+      depth: false,
+      stencil: false,
+      // Frames are encoded after the draw call returns
+      preserveDrawingBuffer: true,
+    });
+    if (!gl) throw new Error("WebGL2 not supported");
+
+    try {
+      const renderer = new ShaderRenderer(gl, source, width, height);
+      try {
+        await renderer.whenTexturesLoaded();
+        return await fn(canvas, renderer);
+      } finally {
+        renderer.dispose();
+      }
+    } finally {
+      gl.getExtension("WEBGL_lose_context")?.loseContext();
+    }
+  }
+
+  private static async capturePng(
+    canvas: HTMLCanvasElement,
+    renderer: ShaderRenderer,
+    clock: DeterministicSettings,
+    options: CaptureOptions
+  ): Promise<Blob> {
+    const entries: ZipEntry[] = [];
+    const total = options.endFrame - options.startFrame + 1;
+    const digits = Math.max(4, String(options.endFrame).length);
+
+    for (let frame = options.startFrame; frame <= options.endFrame; frame++) {
+      this.throwIfAborted(options.signal);
+
+      renderer.renderFrame(frame, clock, options.inputs);
+      const png = await this.toBlob(canvas);
+      entries.push({
+        name: `frame_${String(frame).padStart(digits, "0")}.png`,
+        data: new Uint8Array(await png.arrayBuffer()),
+      });
+
+      options.onProgress?.(entries.length, total);
+    }
+
+    return ZipArchive.create(entries);
+  }
+
+  /**
+   * The recorder is paused while a frame renders and resumed for exactly one
+   * frame interval, so the video plays at fps even if rendering is slower
+   */
+  private static async captureWebm(
+    canvas: HTMLCanvasElement,
+    renderer: ShaderRenderer,
+    clock: DeterministicSettings,
+    options: CaptureOptions
+  ): Promise<Blob> {
+    const mimeType = this.webmType();
+    if (!mimeType) throw new Error("WebM recording is not supported in this browser");
+
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: 16_000_000,
+    });
+    const chunks: Blob[] = [];
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const total = options.endFrame - options.startFrame + 1;
+    const interval = 1000 / options.fps;
+
+    recorder.start();
+    recorder.pause();
+
+    try {
+      for (let frame = options.startFrame; frame <= options.endFrame; frame++) {
+        this.throwIfAborted(options.signal);
+
+        renderer.renderFrame(frame, clock, options.inputs);
+        recorder.resume();
+        track.requestFrame();
+        await new Promise((resolve) => setTimeout(resolve, interval));
+        recorder.pause();
+
+        options.onProgress?.(frame - options.startFrame + 1, total);
+      }
+    } finally {
+      recorder.stop();
+      track.stop();
+      await stopped;
+    }
+
+    return new Blob(chunks, { type: "video/webm" });
+  }
+
+  private static validate(options: CaptureOptions): void {
+    const { width, height, startFrame, endFrame, fps } = options;
+
+    this.validateSize(width, height);
+    if (!Number.isInteger(startFrame) || !Number.isInteger(endFrame) || startFrame < 0) {
+      throw new Error("Frame range must be whole frames from 0");
+    }
+    if (endFrame < startFrame) {
+      throw new Error("Last frame comes before the first frame");
+    }
+    if (!(fps > 0)) {
+      throw new Error("Frame rate must be positive");
+    }
+  }
+
+  private static validateSize(width: number, height: number): void {
+    if (
+      !Number.isInteger(width) ||
+      !Number.isInteger(height) ||
+      width < 1 ||
+      height < 1 ||
+      width > MAX_CAPTURE_SIZE ||
+      height > MAX_CAPTURE_SIZE
+    ) {
+      throw new Error(`Resolution must be between 1 and ${MAX_CAPTURE_SIZE} pixels`);
+    }
+  }
+
+  private static webmType(): string | null {
+    if (typeof MediaRecorder === "undefined") return null;
+    return WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+  }
+
+  private static toBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))),
+        "image/png"
+      );
+    });
+  }
+
+  private static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new Error("Capture cancelled");
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Rolling frame and GPU timing statistics behind PerformanceMetrics
+ * Shared by the main-thread render loop and the render worker
+ */
+
+import type {
+  ContextEvent,
+  PassTiming,
+  PerformanceMetrics,
+  RenderThread,
+} from "../components/shaders/ShaderCanvas";
+import type { GpuTimingPoll } from "./ShaderRenderer";
+
+export interface FrameStatsContext {
+  totalFrames: number;
+  resolution: { width: number; height: number };
+  renderResolution: { width: number; height: number };
+  renderScale: number;
+  passNames: string[];
+  renderThread: RenderThread;
+  // Whether the renderer has timer queries; coverage is only reported then
+  gpuTimer: boolean;
+  // Draws per pass per frame, set in stress mode
+  drawMultiplier?: number;
+  // iTime of the latest frame
+  time?: number;
+  contextEvents?: ContextEvent[];
+}
+
+export class FrameStats {
+  // Frame interval at each metrics update, last 120
+  readonly frameTimes: number[] = [];
+  // Summed GPU time of complete frames, last 30
+  readonly gpuTimes: number[] = [];
+  private passGpuTimes: number[][];
+  // Renderer frame the statistics start at; older samples are ignored
+  private firstFrame: number;
+  // Coverage counters: polls (one per rendered frame), samples kept, samples thrown away
+  private polls = 0;
+  private timedFrames = 0;
+  private discardedFrames = 0;
+
+  constructor(passCount: number, firstFrame = 0) {
+    this.passGpuTimes = Array.from({ length: passCount }, () => []);
+    this.firstFrame = firstFrame;
+  }
+
+  /**
+   * Add a pollGpuTimes result; call once per rendered frame
+   */
+  recordGpuTimes(poll: GpuTimingPoll): void {
+    this.polls++;
+    this.discardedFrames += poll.discarded;
+
+    for (const sample of poll.samples) {
+      // Measured before a reset, e.g. at another draw multiplier
+      if (sample.frame < this.firstFrame) continue;
+
+      this.timedFrames++;
+      sample.passTimes.forEach((time, i) => {
+        const samples = this.passGpuTimes[i];
+        samples.push(time);
+        if (samples.length > 30) samples.shift();
+      });
+      this.gpuTimes.push(sample.passTimes.reduce((sum, time) => sum + time, 0));
+      if (this.gpuTimes.length > 30) this.gpuTimes.shift();
+    }
+  }
+
+  /**
+   * Record the latest frame interval and summarize
+   */
+  metrics(frameTime: number, context: FrameStatsContext): PerformanceMetrics {
+    const frameTimes = this.frameTimes;
+    const gpuTimeSamples = this.gpuTimes;
+    frameTimes.push(frameTime);
+
+    // Keep only last 120 frames for rolling average
+    if (frameTimes.length > 120) frameTimes.shift();
+
+    // Calculate RAF-based metrics
+    const avgFrameTime =
+      frameTimes.reduce((sum, t) => sum + t, 0) / frameTimes.length;
+    const rafFps = 1000 / avgFrameTime;
+    const minFrameTime = Math.min(...frameTimes);
+    const maxFrameTime = Math.max(...frameTimes);
+
+    // Detect actual frame drops based on RAF timing
+    const targetFrameTime = 1000 / 60; // 16.67ms for 60 FPS
+    const droppedFrames = frameTimes.filter(
+      (t) => t > targetFrameTime * 1.5 // 50% threshold
+    ).length;
+
+    // Calculate GPU-based metrics if available
+    let gpuFps = rafFps; // Default to RAF-based FPS
+    let reportedGpuTime: number | undefined = undefined;
+
+    if (gpuTimeSamples.length > 0) {
+      // Use median GPU time to filter outliers
+      const sortedGpuTimes = [...gpuTimeSamples].sort((a, b) => a - b);
+      const medianGpuTime =
+        sortedGpuTimes[Math.floor(sortedGpuTimes.length / 2)];
+
+      gpuFps = 1000 / medianGpuTime;
+      reportedGpuTime = medianGpuTime;
+    }
+
+    // Per-pass medians, only reported for multipass shaders
+    const passTimings: PassTiming[] = [];
+
+    if (context.passNames.length > 1) {
+      this.passGpuTimes.forEach((samples, i) => {
+        if (samples.length === 0) return;
+        const sorted = [...samples].sort((a, b) => a - b);
+        passTimings.push({
+          name: context.passNames[i],
+          gpuTime: sorted[Math.floor(sorted.length / 2)],
+        });
+      });
+    }
+
+    // Use GPU FPS if available and reasonable (within 2x of RAF FPS)
+    const finalFps =
+      reportedGpuTime && Math.abs(gpuFps - rafFps) < rafFps * 2
+        ? gpuFps
+        : rafFps;
+
+    return {
+      fps: Math.round(finalFps * 100) / 100,
+      frameTime: Math.round(frameTime * 100) / 100,
+      avgFrameTime: Math.round(avgFrameTime * 100) / 100,
+      minFrameTime: Math.round(minFrameTime * 100) / 100,
+      maxFrameTime: Math.round(maxFrameTime * 100) / 100,
+      droppedFrames,
+      totalFrames: context.totalFrames,
+      gpuTime: reportedGpuTime,
+      passTimings: passTimings.length > 0 ? passTimings : undefined,
+      resolution: context.resolution,
+      renderResolution: context.renderResolution,
+      renderScale: context.renderScale,
+      pixelCount:
+        context.renderResolution.width * context.renderResolution.height,
+      renderThread: context.renderThread,
+      // Share of rendered frames behind gpuTime; the rest were skipped or discarded
+      gpuCoverage: context.gpuTimer
+        ? Math.round(Math.min(1, this.timedFrames / Math.max(1, this.polls)) * 1000) /
+          1000
+        : undefined,
+      gpuDiscarded: context.gpuTimer ? this.discardedFrames : undefined,
+      drawMultiplier: context.drawMultiplier,
+      // Vsync-bound frame time is a poor substitute, but all there is without timers
+      drawCost:
+        context.drawMultiplier !== undefined
+          ? Math.round(
+              ((reportedGpuTime ?? avgFrameTime) / context.drawMultiplier) * 10000
+            ) / 10000
+          : undefined,
+      iTime: context.time,
+      contextEvents: context.contextEvents,
+    };
+  }
+}
@@ -0,0 +1,584 @@
+/**
+ * Static GLSL cost estimator
+ * Estimates per-pixel cost from source alone, before anything is rendered.
+ * Loop trip counts are derived from constant bounds (literals, #defines and
+ * const declarations); everything inside a loop is multiplied by its trip count
+ */
+
+import { ShaderDefinition } from "../components/shaders/ShaderViewer";
+import { GlslPreprocessor, GlslToken } from "./GlslPreprocessor";
+
+export interface GlslCostCounts {
+  arithmetic: number;
+  transcendentals: number;
+  textureFetches: number;
+  branches: number;
+}
+
+export interface GlslFunctionCost {
+  name: string;
+  line: number;
+  // Defined in the Common tab rather than the pass itself
+  common: boolean;
+  // Operations in this function only, multiplied by enclosing loop trip counts
+  self: GlslCostCounts;
+  // Including everything reached through calls
+  total: GlslCostCounts;
+  selfCost: number;
+  totalCost: number;
+  loops: number;
+  maxLoopDepth: number;
+  calls: string[];
+}
+
+export interface PassCostEstimate {
+  name: string;
+  // Weighted operation count per pixel; only meaningful relative to other shaders
+  score: number;
+  entryPoint: string | null;
+  counts: GlslCostCounts;
+  maxLoopDepth: number;
+  // Loops whose trip count couldn't be derived and fell back to DEFAULT_LOOP_ITERATIONS
+  unboundedLoops: number;
+  functions: GlslFunctionCost[];
+}
+
+export interface ShaderCostEstimate {
+  // Sum over every pass
+  score: number;
+  passes: PassCostEstimate[];
+}
+
+// Relative cost of each operation class, roughly in ALU cycles
+export const COST_WEIGHTS: GlslCostCounts = {
+  arithmetic: 1,
+  transcendentals: 8,
+  textureFetches: 16,
+  branches: 4,
+};
+
+// Assumed trip count for loops without a constant bound (while loops, runtime bounds)
+export const DEFAULT_LOOP_ITERATIONS = 32;
+const MAX_LOOP_ITERATIONS = 100000;
+
+const TRANSCENDENTALS = new Set([
+  "sin", "cos", "tan", "asin", "acos", "atan",
+  "sinh", "cosh", "tanh", "asinh", "acosh", "atanh",
+  "pow", "exp", "exp2", "log", "log2", "sqrt", "inversesqrt",
+  "length", "distance", "normalize",
+]);
+
+const TEXTURE_FETCHES = new Set([
+  "texture", "textureLod", "textureGrad", "textureOffset", "textureLodOffset",
+  "textureGradOffset", "textureProj", "textureProjLod", "textureProjGrad",
+  "texelFetch", "texelFetchOffset", "texture2D", "texture2DLod", "textureCube",
+  "texture2DProj",
+]);
+
+const ARITHMETIC_OPERATORS = new Set([
+  "+", "-", "*", "/", "%", "+=", "-=", "*=", "/=", "%=",
+]);
+
+const CAST_TYPES = new Set(["int", "uint", "float"]);
+
+const EMPTY_COUNTS = (): GlslCostCounts => ({
+  arithmetic: 0,
+  transcendentals: 0,
+  textureFetches: 0,
+  branches: 0,
+});
+
+interface CallSite {
+  name: string;
+  multiplier: number;
+  depth: number;
+}
+
+interface FunctionInfo {
+  name: string;
+  line: number;
+  common: boolean;
+  self: GlslCostCounts;
+  loops: number;
+  unboundedLoops: number;
+  maxLoopDepth: number;
+  callSites: CallSite[];
+}
+
+interface ActiveLoop {
+  iterations: number;
+  // Index of the last token of the loop body
+  end: number;
+}
+
+export class GlslCostEstimator {
+  /**
+   * Estimate every pass of a shader; Common functions are visible to each pass
+   */
+  static estimateShader(
+    shader: Pick<ShaderDefinition, "fragmentShader" | "common" | "buffers">
+  ): ShaderCostEstimate {
+    const passes = [
+      ...(shader.buffers ?? []).map((buffer) =>
+        this.estimate(buffer.fragmentShader, shader.common, `Buffer ${buffer.id}`)
+      ),
+      this.estimate(shader.fragmentShader, shader.common, "Image"),
+    ];
+
+    return {
+      score: passes.reduce((sum, pass) => sum + pass.score, 0),
+      passes,
+    };
+  }
+
+  /**
+   * Estimate a single pass starting from mainImage (or main)
+   */
+  static estimate(source: string, common?: string, name = "Image"): PassCostEstimate {
+    const commonSource = GlslPreprocessor.tokenize(common ?? "");
+    const passSource = GlslPreprocessor.tokenize(source);
+    const commonTokens = this.significant(commonSource);
+    const passTokens = this.significant(passSource);
+    const constants = new Map<string, number>();
+
+    this.collectConstants(commonSource, commonTokens, constants);
+    this.collectConstants(passSource, passTokens, constants);
+
+    const functions = [
+      ...this.collectFunctions(commonTokens, constants, true),
+      ...this.collectFunctions(passTokens, constants, false),
+    ];
+
+    const byName = new Map<string, FunctionInfo[]>();
+    for (const fn of functions) {
+      byName.set(fn.name, [...(byName.get(fn.name) ?? []), fn]);
+    }
+
+    const totals = new Map<FunctionInfo, { counts: GlslCostCounts; depth: number }>();
+    const resolve = (fn: FunctionInfo, visiting: Set<FunctionInfo>) => {
+      const cached = totals.get(fn);
+      if (cached) return cached;
+
+      const counts = { ...fn.self };
+      let depth = fn.maxLoopDepth;
+      visiting.add(fn);
+
+      for (const site of fn.callSites) {
+        // Overloads can't be told apart without types; assume the most expensive one
+        const callee = (byName.get(site.name) ?? [])
+          .filter((candidate) => !visiting.has(candidate))
+          .map((candidate) => resolve(candidate, visiting))
+          .sort((a, b) => this.score(b.counts) - this.score(a.counts))[0];
+        if (!callee) continue;
+
+        for (const key of Object.keys(counts) as (keyof GlslCostCounts)[]) {
+          counts[key] += callee.counts[key] * site.multiplier;
+        }
+        depth = Math.max(depth, site.depth + callee.depth);
+      }
+
+      visiting.delete(fn);
+      const result = { counts, depth };
+      totals.set(fn, result);
+      return result;
+    };
+
+    const functionCosts: GlslFunctionCost[] = functions.map((fn) => {
+      const total = resolve(fn, new Set());
+      return {
+        name: fn.name,
+        line: fn.line,
+        common: fn.common,
+        self: fn.self,
+        total: total.counts,
+        selfCost: this.score(fn.self),
+        totalCost: this.score(total.counts),
+        loops: fn.loops,
+        maxLoopDepth: total.depth,
+        calls: Array.from(new Set(fn.callSites.map((site) => site.name))),
+      };
+    });
+
+    const entry =
+      functions.find((fn) => fn.name === "mainImage" && !fn.common) ??
+      functions.find((fn) => fn.name === "main" && !fn.common) ??
+      null;
+    const reachable = entry ? this.reachable(entry, byName) : functions;
+    const counts = entry ? resolve(entry, new Set()).counts : this.sum(functions.map((fn) => fn.self));
+
+    return {
+      name,
+      score: this.score(counts),
+      entryPoint: entry?.name ?? null,
+      counts,
+      maxLoopDepth: entry ? resolve(entry, new Set()).depth : Math.max(0, ...functions.map((fn) => fn.maxLoopDepth)),
+      unboundedLoops: reachable.reduce((sum, fn) => sum + fn.unboundedLoops, 0),
+      functions: functionCosts,
+    };
+  }
+
+  /**
+   * Weighted cost of a set of operation counts
+   */
+  static score(counts: GlslCostCounts): number {
+    return (Object.keys(COST_WEIGHTS) as (keyof GlslCostCounts)[]).reduce(
+      (sum, key) => sum + counts[key] * COST_WEIGHTS[key],
+      0
+    );
+  }
+
+  /**
+   * Compact label for a score, e.g. 850 or 12.4k
+   */
+  static formatScore(score: number): string {
+    if (score >= 1e6) return `${(score / 1e6).toFixed(1)}M`;
+    if (score >= 1e3) return `${(score / 1e3).toFixed(1)}k`;
+    return Math.round(score).toString();
+  }
+
+  private static significant(tokens: GlslToken[]): GlslToken[] {
+    return tokens.filter(
+      (token) =>
+        token.type !== "whitespace" &&
+        token.type !== "newline" &&
+        token.type !== "comment" &&
+        token.type !== "directive"
+    );
+  }
+
+  /**
+   * Numeric `#define NAME value` macros and `const int/float NAME = value;` declarations
+   */
+  private static collectConstants(
+    tokens: GlslToken[],
+    code: GlslToken[],
+    constants: Map<string, number>
+  ) {
+    for (const directive of GlslPreprocessor.directives(tokens)) {
+      if (directive.name !== "define") continue;
+
+      const match = directive.body.match(/^(\w+)\s+(.+)$/);
+      if (!match) continue;
+
+      const body = this.significant(GlslPreprocessor.tokenize(match[2]));
+      const value = this.evaluate(body, constants);
+      if (value !== null) constants.set(match[1], value);
+    }
+
+    for (let i = 0; i < code.length; i++) {
+      if (code[i].value !== "const") continue;
+
+      // const <type> NAME = <expr> ;
+      const name = code[i + 2];
+      if (name?.type !== "identifier" || code[i + 3]?.value !== "=") continue;
+
+      const end = code.findIndex((token, index) => index > i && token.value === ";");
+      if (end === -1) continue;
+
+      const value = this.evaluate(code.slice(i + 4, end), constants);
+      if (value !== null) constants.set(name.value, value);
+    }
+  }
+
+  /**
+   * Find top-level `name(...) { ... }` definitions and analyze their bodies
+   */
+  private static collectFunctions(
+    code: GlslToken[],
+    constants: Map<string, number>,
+    common: boolean
+  ): FunctionInfo[] {
+    const functions: FunctionInfo[] = [];
+    let depth = 0;
+
+    for (let i = 0; i < code.length; i++) {
+      const token = code[i];
+
+      if (token.value === "{") depth++;
+      if (token.value === "}") depth--;
+      if (depth !== 0 || token.type !== "identifier" || code[i + 1]?.value !== "(") continue;
+
+      const close = this.matching(code, i + 1);
+      if (code[close + 1]?.value !== "{") continue;
+
+      const bodyEnd = this.matching(code, close + 1);
+      functions.push(
+        this.analyzeBody(token, code.slice(close + 2, bodyEnd), constants, common)
+      );
+      i = bodyEnd;
+    }
+
+    return functions;
+  }
+
+  private static analyzeBody(
+    nameToken: GlslToken,
+    body: GlslToken[],
+    constants: Map<string, number>,
+    common: boolean
+  ): FunctionInfo {
+    const info: FunctionInfo = {
+      name: nameToken.value,
+      line: nameToken.line,
+      common,
+      self: EMPTY_COUNTS(),
+      loops: 0,
+      unboundedLoops: 0,
+      maxLoopDepth: 0,
+      callSites: [],
+    };
+    const stack: ActiveLoop[] = [];
+    let skipWhileAt = -1;
+
+    for (let i = 0; i < body.length; i++) {
+      while (stack.length > 0 && stack[stack.length - 1].end < i) stack.pop();
+
+      const token = body[i];
+      const multiplier = stack.reduce((product, loop) => product * loop.iterations, 1);
+
+      const isLoop =
+        token.value === "for" ||
+        token.value === "do" ||
+        (token.value === "while" && i !== skipWhileAt);
+
+      if (token.type === "identifier" && isLoop) {
+        let iterations: number | null = null;
+        let bodyStart = i + 1;
+
+        if (token.value !== "do") {
+          const close = this.matching(body, i + 1);
+          if (token.value === "for") {
+            iterations = this.tripCount(body.slice(i + 2, close), constants);
+          }
+          bodyStart = close + 1;
+        }
+
+        const end = body[bodyStart]?.value === "{"
+          ? this.matching(body, bodyStart)
+          : this.statementEnd(body, bodyStart);
+        if (token.value === "do") skipWhileAt = end + 1;
+
+        info.loops++;
+        if (iterations === null) info.unboundedLoops++;
+        stack.push({ iterations: iterations ?? DEFAULT_LOOP_ITERATIONS, end });
+        info.maxLoopDepth = Math.max(info.maxLoopDepth, stack.length);
+        continue;
+      }
+
+      if (token.value === "if" || token.value === "switch" || token.value === "?") {
+        info.self.branches += multiplier;
+        continue;
+      }
+
+      if (token.type === "operator" && ARITHMETIC_OPERATORS.has(token.value)) {
+        info.self.arithmetic += multiplier;
+        continue;
+      }
+
+      if (token.type !== "identifier" || body[i + 1]?.value !== "(") continue;
+
+      if (TRANSCENDENTALS.has(token.value)) {
+        info.self.transcendentals += multiplier;
+      } else if (TEXTURE_FETCHES.has(token.value)) {
+        info.self.textureFetches += multiplier;
+      } else {
+        info.callSites.push({ name: token.value, multiplier, depth: stack.length });
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * Derive the trip count of `for (init; cond; step)` when all parts are constant
+   */
+  private static tripCount(header: GlslToken[], constants: Map<string, number>): number | null {
+    const parts: GlslToken[][] = [[]];
+    let depth = 0;
+    for (const token of header) {
+      if (token.value === "(") depth++;
+      if (token.value === ")") depth--;
+      if (token.value === ";" && depth === 0) parts.push([]);
+      else parts[parts.length - 1].push(token);
+    }
+    if (parts.length !== 3) return null;
+
+    const [init, cond, step] = parts;
+
+    // init: [type] i = <expr>
+    const assign = init.findIndex((token) => token.value === "=");
+    if (assign < 1) return null;
+    const variable = init[assign - 1].value;
+    const start = this.evaluate(init.slice(assign + 1), constants);
+
+    // cond: i <op> <expr>  or  <expr> <op> i
+    const compare = cond.findIndex((token) => ["<", "<=", ">", ">=", "!="].includes(token.value));
+    if (compare === -1 || start === null) return null;
+    let op = cond[compare].value;
+    let limitTokens = cond.slice(compare + 1);
+    if (cond[0]?.value !== variable || compare !== 1) {
+      if (cond[cond.length - 1]?.value !== variable || compare !== cond.length - 2) return null;
+      limitTokens = cond.slice(0, compare);
+      op = { "<": ">", "<=": ">=", ">": "<", ">=": "<=", "!=": "!=" }[op] ?? op;
+    }
+    const limit = this.evaluate(limitTokens, constants);
+    if (limit === null) return null;
+
+    const increment = this.stepSize(step, variable, constants);
+    if (increment === null || increment === 0) return null;
+
+    let iterations: number;
+    if (op === "<" || (op === "!=" && increment > 0)) {
+      iterations = Math.ceil((limit - start) / increment);
+    } else if (op === "<=") {
+      iterations = Math.floor((limit - start) / increment) + 1;
+    } else if (op === ">" || op === "!=") {
+      iterations = Math.ceil((start - limit) / -increment);
+    } else {
+      iterations = Math.floor((start - limit) / -increment) + 1;
+    }
+
+    if (!Number.isFinite(iterations)) return null;
+    return Math.min(MAX_LOOP_ITERATIONS, Math.max(0, iterations));
+  }
+
+  private static stepSize(
+    step: GlslToken[],
+    variable: string,
+    constants: Map<string, number>
+  ): number | null {
+    const values = step.map((token) => token.value);
+
+    if (values.join("") === `${variable}++` || values.join("") === `++${variable}`) return 1;
+    if (values.join("") === `${variable}--` || values.join("") === `--${variable}`) return -1;
+
+    if (values[0] === variable && (values[1] === "+=" || values[1] === "-=")) {
+      const amount = this.evaluate(step.slice(2), constants);
+      if (amount === null) return null;
+      return values[1] === "+=" ? amount : -amount;
+    }
+
+    // i = i + k / i = i - k
+    if (values[0] === variable && values[1] === "=" && values[2] === variable && (values[3] === "+" || values[3] === "-")) {
+      const amount = this.evaluate(step.slice(4), constants);
+      if (amount === null) return null;
+      return values[3] === "+" ? amount : -amount;
+    }
+
+    return null;
+  }
+
+  /**
+   * Evaluate a constant arithmetic expression of numbers, known constants,
+   * parentheses, unary minus and int()/float() casts
+   */
+  private static evaluate(tokens: GlslToken[], constants: Map<string, number>): number | null {
+    let pos = 0;
+
+    const primary = (): number | null => {
+      const token = tokens[pos++];
+      if (!token) return null;
+
+      if (token.value === "-") {
+        const value = primary();
+        return value === null ? null : -value;
+      }
+      if (token.value === "+") return primary();
+      if (token.value === "(") {
+        const value = expression();
+        if (tokens[pos++]?.value !== ")") return null;
+        return value;
+      }
+      if (token.type === "number") {
+        const literal = token.value.replace(/[uUfF]$/, "");
+        const value = /^0x/i.test(literal) ? parseInt(literal, 16) : parseFloat(literal);
+        return Number.isNaN(value) ? null : value;
+      }
+      if (token.type === "identifier" && CAST_TYPES.has(token.value) && tokens[pos]?.value === "(") {
+        return primary();
+      }
+      if (token.type === "identifier") return constants.get(token.value) ?? null;
+
+      return null;
+    };
+
+    const term = (): number | null => {
+      let value = primary();
+      while (value !== null && (tokens[pos]?.value === "*" || tokens[pos]?.value === "/")) {
+        const op = tokens[pos++].value;
+        const right = primary();
+        if (right === null) return null;
+        value = op === "*" ? value * right : value / right;
+      }
+      return value;
+    };
+
+    const expression = (): number | null => {
+      let value = term();
+      while (value !== null && (tokens[pos]?.value === "+" || tokens[pos]?.value === "-")) {
+        const op = tokens[pos++].value;
+        const right = term();
+        if (right === null) return null;
+        value = op === "+" ? value + right : value - right;
+      }
+      return value;
+    };
+
+    const value = expression();
+    return pos === tokens.length ? value : null;
+  }
+
+  private static reachable(entry: FunctionInfo, byName: Map<string, FunctionInfo[]>): FunctionInfo[] {
+    const seen = new Set<FunctionInfo>();
+    const visit = (fn: FunctionInfo) => {
+      if (seen.has(fn)) return;
+      seen.add(fn);
+      for (const site of fn.callSites) {
+        for (const callee of byName.get(site.name) ?? []) visit(callee);
+      }
+    };
+    visit(entry);
+    return Array.from(seen);
+  }
+
+  private static sum(list: GlslCostCounts[]): GlslCostCounts {
+    return list.reduce((acc, counts) => {
+      for (const key of Object.keys(acc) as (keyof GlslCostCounts)[]) {
+        acc[key] += counts[key];
+      }
+      return acc;
+    }, EMPTY_COUNTS());
+  }
+
+  /**
+   * Index of the bracket closing the one at `open`
+   */
+  private static matching(tokens: GlslToken[], open: number): number {
+    const opener = tokens[open]?.value;
+    const closer = opener === "(" ? ")" : opener === "{" ? "}" : "]";
+    let depth = 0;
+
+    for (let i = open; i < tokens.length; i++) {
+      if (tokens[i].value === opener) depth++;
+      if (tokens[i].value === closer && --depth === 0) return i;
+    }
+
+    return tokens.length - 1;
+  }
+
+  /**
+   * Index of the `;` ending a single-statement loop body
+   */
+  private static statementEnd(tokens: GlslToken[], start: number): number {
+    let depth = 0;
+
+    for (let i = start; i < tokens.length; i++) {
+      const value = tokens[i].value;
+      if (value === "(" || value === "{") depth++;
+      if (value === ")" || value === "}") depth--;
+      if (value === ";" && depth === 0) return i;
+    }
+
+    return tokens.length - 1;
+  }
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { GlslLinter } from "./GlslLinter";
+
+// Wraps statements in a mainImage body, so only the snippet can warn
+const body = (...lines: string[]) =>
+  [
+    "void mainImage(out vec4 fragColor, in vec2 fragCoord) {",
+    ...lines.map((line) => `  ${line}`),
+    "}",
+  ].join("\n");
+
+const rules = (source: string) => GlslLinter.lint(source).map((warning) => warning.rule);
+
+describe("GlslLinter", () => {
+  it("flags pow() with a base that may be negative", () => {
+    const [warning] = GlslLinter.lint(body("float v = pow(fragCoord.x - 0.5, 2.0);"));
+
+    expect(warning.rule).toBe("pow-negative-base");
+    expect(warning.line).toBe(2);
+    expect(warning.column).toBe(13);
+  });
+
+  it("accepts pow() over literals and non-negative calls", () => {
+    const source = body(
+      "float a = pow(2.0, fragCoord.x);",
+      "float b = pow(abs(fragCoord.x), 2.0);",
+      "float c = pow(max(fragCoord.x, 0.0), 2.0);",
+      "float d = pow(length(fragCoord), 0.5);"
+    );
+
+    expect(rules(source)).toEqual([]);
+  });
+
+  it("does not trust a non-negative call that is only part of the base", () => {
+    expect(rules(body("float v = pow(abs(fragCoord.x) - 1.0, 2.0);"))).toEqual([
+      "pow-negative-base",
+    ]);
+  });
+
+  it("flags division by zero-prone divisors", () => {
+    const source = body(
+      "float a = 1.0 / 0.0;",
+      "float b = 1.0 / length(fragCoord);",
+      "float c = 1.0 / (fragCoord.x - fragCoord.y);"
+    );
+
+    expect(rules(source)).toEqual([
+      "division-by-zero",
+      "division-by-zero",
+      "division-by-zero",
+    ]);
+  });
+
+  it("accepts safe divisors and negated terms", () => {
+    const source = body(
+      "float a = fragCoord.x / 2.0;",
+      "float b = 1.0 / max(length(fragCoord), 1e-4);",
+      "float c = 1.0 / (-fragCoord.x + 2.0);",
+      "float d = 1.0 / (fragCoord.x * -2.0);"
+    );
+
+    expect(rules(source)).toEqual([]);
+  });
+
+  it("flags while, do/while and condition-less for loops", () => {
+    const warnings = GlslLinter.lint(
+      body(
+        "float t = 0.0;",
+        "while (t < 1.0) { t += 0.1; }",
+        "do { t -= 0.1; } while (t > 0.0);",
+        "for (int i = 0; ; i++) { break; }"
+      )
+    );
+
+    expect(warnings.map((warning) => [warning.rule, warning.line])).toEqual([
+      ["unbounded-loop", 3],
+      ["unbounded-loop", 4],
+      ["unbounded-loop", 5],
+    ]);
+    // The do/while is reported once, on its `do`
+    expect(warnings[1].message).toMatch(/^do\/while/);
+  });
+
+  it("accepts for loops with a fixed bound", () => {
+    expect(rules(body("float t = 0.0;", "for (int i = 0; i < 64; i++) { t += 0.1; }"))).toEqual([]);
+  });
+
+  it("flags mediump, lowp and over-long literals", () => {
+    const source = [
+      "precision mediump float;",
+      body("lowp float a = 3.14159265358979;", "fragColor = vec4(a);"),
+    ].join("\n");
+
+    expect(rules(source)).toEqual(["precision-loss", "precision-loss", "precision-loss"]);
+  });
+
+  it("accepts highp and literals a float can hold", () => {
+    const source = [
+      "precision highp float;",
+      body("float a = 3.1415927 + 0.000001 + 1e-10 + 0x7FFFFFFF;", "fragColor = vec4(a);"),
+    ].join("\n");
+
+    expect(rules(source)).toEqual([]);
+  });
+
+  it("flags a local read before it is assigned", () => {
+    const [warning] = GlslLinter.lint(body("float a;", "float b = a * 2.0;"));
+
+    expect(warning.rule).toBe("uninitialized-variable");
+    expect(warning.line).toBe(3);
+    expect(warning.message).toContain("'a'");
+  });
+
+  it("treats assignments, swizzle writes and call arguments as writes", () => {
+    const source = [
+      "void fill(out vec3 c) { c = vec3(1.0); }",
+      body(
+        "float a;",
+        "a = 1.0;",
+        "vec3 b;",
+        "b.x = a;",
+        "vec3 c;",
+        "fill(c);",
+        "fragColor = vec4(b + c, a);"
+      ),
+    ].join("\n");
+
+    expect(rules(source)).toEqual([]);
+  });
+
+  it("ignores globals and struct members", () => {
+    const source = [
+      "float g;",
+      "struct Hit { float t; };",
+      body("Hit h;", "h.t = g;", "fragColor = vec4(h.t);"),
+    ].join("\n");
+
+    expect(rules(source)).toEqual([]);
+  });
+
+  it("flags GLSL ES 1.0 built-ins", () => {
+    const source = "varying vec2 uv;\nvoid main() { gl_FragColor = texture2D(tex, uv); }";
+
+    expect(rules(source)).toEqual(["es1-builtin", "es1-builtin", "es1-builtin"]);
+  });
+
+  it("ignores built-ins in comments and directives", () => {
+    const source = [
+      "// gl_FragColor = texture2D(tex, uv);",
+      "#define LEGACY texture2D",
+      body("fragColor = vec4(1.0); /* varying */"),
+    ].join("\n");
+
+    expect(rules(source)).toEqual([]);
+  });
+
+  it("skips suppressed rules", () => {
+    const source = body("float a = 1.0 / 0.0;", "float b = pow(a, 2.0);", "fragColor = vec4(b);");
+
+    expect(rules(source)).toEqual(["division-by-zero", "pow-negative-base"]);
+    expect(GlslLinter.lint(source, ["division-by-zero"]).map((warning) => warning.rule)).toEqual([
+      "pow-negative-base",
+    ]);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * GLSL linter
+ * Flags patterns that compile but are risky or non-portable across GPUs and
+ * drivers. Works on the token stream, so comments and directives never match
+ */
+
+import { GlslPreprocessor, GlslToken } from "./GlslPreprocessor";
+
+export type GlslLintRule =
+  | "pow-negative-base"
+  | "division-by-zero"
+  | "unbounded-loop"
+  | "precision-loss"
+  | "uninitialized-variable"
+  | "es1-builtin";
+
+export interface GlslLintWarning {
+  rule: GlslLintRule;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export const LINT_RULES: Record<GlslLintRule, string> = {
+  "pow-negative-base": "pow() with a base that may be negative (undefined result)",
+  "division-by-zero": "Division by a value that may be zero",
+  "unbounded-loop": "Loop without a fixed bound (may hang the GPU)",
+  "precision-loss": "Precision lost to mediump/lowp or over-long literals",
+  "uninitialized-variable": "Local variable read before it is assigned",
+  "es1-builtin": "GLSL ES 1.0 built-in not available in WebGL2",
+};
+
+// Calls whose result is never negative, so they're safe as a pow() base
+const NON_NEGATIVE_CALLS = new Set([
+  "abs", "max", "clamp", "length", "distance", "exp", "exp2", "sqrt",
+  "inversesqrt", "smoothstep", "fract",
+]);
+
+// Calls that commonly evaluate to zero somewhere in the domain
+const ZERO_PRONE_CALLS = new Set([
+  "length", "distance", "dot", "sin", "cos", "tan", "fract", "abs", "mod",
+]);
+
+const ES1_BUILTINS: Record<string, string> = {
+  gl_FragColor: "declare `out vec4 fragColor;` instead",
+  gl_FragData: "declare `out` variables instead",
+  texture2D: "use texture()",
+  texture2DLod: "use textureLod()",
+  texture2DProj: "use textureProj()",
+  textureCube: "use texture()",
+  varying: "use in/out",
+  attribute: "use in",
+};
+
+const VALUE_TYPES = new Set([
+  "float", "int", "uint", "bool",
+  "vec2", "vec3", "vec4", "ivec2", "ivec3", "ivec4",
+  "uvec2", "uvec3", "uvec4", "bvec2", "bvec3", "bvec4",
+  "mat2", "mat3", "mat4",
+]);
+
+// fp32 carries about 7 significant decimal digits
+const MAX_FLOAT_DIGITS = 9;
+
+export class GlslLinter {
+  /**
+   * Lint GLSL source, skipping any suppressed rule ids
+   */
+  static lint(source: string, suppressedRules: string[] = []): GlslLintWarning[] {
+    const code = GlslPreprocessor.tokenize(source).filter(
+      (token) =>
+        token.type !== "whitespace" &&
+        token.type !== "newline" &&
+        token.type !== "comment" &&
+        token.type !== "directive"
+    );
+
+    const warnings = [
+      ...this.checkPow(code),
+      ...this.checkDivision(code),
+      ...this.checkLoops(code),
+      ...this.checkPrecision(code),
+      ...this.checkUninitialized(code),
+      ...this.checkEs1(code),
+    ];
+
+    return warnings
+      .filter((warning) => !suppressedRules.includes(warning.rule))
+      .sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  private static checkPow(code: GlslToken[]): GlslLintWarning[] {
+    const warnings: GlslLintWarning[] = [];
+
+    for (let i = 0; i < code.length; i++) {
+      if (code[i].value !== "pow" || code[i + 1]?.value !== "(") continue;
+
+      const base = this.argument(code, i + 2);
+      if (this.isNonNegative(base)) continue;
+
+      warnings.push(
+        this.warning("pow-negative-base", code[i], "pow() is undefined for negative bases; wrap the base in abs() or max(x, 0.0)")
+      );
+    }
+
+    return warnings;
+  }
+
+  private static checkDivision(code: GlslToken[]): GlslLintWarning[] {
+    const warnings: GlslLintWarning[] = [];
+
+    for (let i = 0; i < code.length; i++) {
+      if (code[i].value !== "/" && code[i].value !== "/=") continue;
+
+      const divisor = code[i + 1];
+      if (!divisor) continue;
+
+      if (divisor.type === "number" && parseFloat(divisor.value) === 0) {
+        warnings.push(this.warning("division-by-zero", code[i], "Division by zero"));
+      } else if (ZERO_PRONE_CALLS.has(divisor.value) && code[i + 2]?.value === "(") {
+        warnings.push(
+          this.warning("division-by-zero", code[i], `${divisor.value}() can be zero; add an epsilon or clamp the divisor`)
+        );
+      } else if (divisor.value === "(" && this.isDifference(code, i + 1)) {
+        warnings.push(
+          this.warning("division-by-zero", code[i], "Divisor is a difference that can be zero; add an epsilon")
+        );
+      }
+    }
+
+    return warnings;
+  }
+
+  private static checkLoops(code: GlslToken[]): GlslLintWarning[] {
+    const warnings: GlslLintWarning[] = [];
+    // The `while` closing a do/while is reported on its `do`
+    const doWhile = new Set<number>();
+
+    for (let i = 0; i < code.length; i++) {
+      if (code[i].value === "do" && code[i + 1]?.value === "{") {
+        doWhile.add(this.matching(code, i + 1) + 1);
+      }
+
+      if (code[i].value === "while" && !doWhile.has(i)) {
+        warnings.push(
+          this.warning("unbounded-loop", code[i], "while loop has no fixed bound; use a for loop with a constant limit and break")
+        );
+      } else if (code[i].value === "do") {
+        warnings.push(
+          this.warning("unbounded-loop", code[i], "do/while loop has no fixed bound; use a for loop with a constant limit and break")
+        );
+      } else if (code[i].value === "for" && code[i + 1]?.value === "(") {
+        // for (init; ; step) has no condition at all
+        const close = this.matching(code, i + 1);
+        const semicolons = code
+          .slice(i + 2, close)
+          .map((token, index) => (token.value === ";" ? index : -1))
+          .filter((index) => index !== -1);
+        if (semicolons.length === 2 && semicolons[1] === semicolons[0] + 1) {
+          warnings.push(this.warning("unbounded-loop", code[i], "for loop has no condition"));
+        }
+      }
+    }
+
+    return warnings;
+  }
+
+  private static checkPrecision(code: GlslToken[]): GlslLintWarning[] {
+    const warnings: GlslLintWarning[] = [];
+
+    for (const token of code) {
+      if (token.value === "mediump" || token.value === "lowp") {
+        warnings.push(
+          this.warning("precision-loss", token, `${token.value} floats can be 16-bit or less on mobile GPUs; time and coordinate math will lose precision`)
+        );
+      } else if (token.type === "number" && /[.eE]/.test(token.value) && !/^0x/i.test(token.value)) {
+        const digits = token.value.split(/[eE]/)[0].replace(/[^0-9]/g, "").replace(/^0+/, "");
+        if (digits.length > MAX_FLOAT_DIGITS) {
+          warnings.push(
+            this.warning("precision-loss", token, `Literal ${token.value} has more digits than a 32-bit float can hold`)
+          );
+        }
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * `float x;` inside a function body followed by a read before any write
+   */
+  private static checkUninitialized(code: GlslToken[]): GlslLintWarning[] {
+    const warnings: GlslLintWarning[] = [];
+    let depth = 0;
+    let functionEnd = -1;
+
+    for (let i = 0; i < code.length; i++) {
+      if (code[i].value === "{") {
+        depth++;
+        if (depth === 1) functionEnd = this.matching(code, i);
+      }
+      if (code[i].value === "}") depth--;
+      if (depth === 0 || !VALUE_TYPES.has(code[i].value)) continue;
+
+      const name = code[i + 1];
+      if (name?.type !== "identifier" || code[i + 2]?.value !== ";") continue;
+      // Skip struct members and parameters such as `in float x;` in interface blocks
+      if (["in", "out", "inout", "uniform", "const"].includes(code[i - 1]?.value)) continue;
+
+      for (let j = i + 3; j < functionEnd; j++) {
+        if (code[j].value !== name.value) continue;
+
+        const next = code[j + 1]?.value;
+        const prev = code[j - 1]?.value;
+        // Written, partially written, or passed as a possible out parameter
+        const written =
+          next === "=" || next === "." || next === "[" || prev === "(" || prev === ",";
+        if (!written) {
+          warnings.push(
+            this.warning("uninitialized-variable", code[j], `'${name.value}' is read before it is assigned; uninitialized values differ between drivers`)
+          );
+        }
+        break;
+      }
+    }
+
+    return warnings;
+  }
+
+  private static checkEs1(code: GlslToken[]): GlslLintWarning[] {
+    return code
+      .filter((token) => token.type === "identifier" && token.value in ES1_BUILTINS)
+      .map((token) =>
+        this.warning("es1-builtin", token, `${token.value} is GLSL ES 1.0 only; ${ES1_BUILTINS[token.value]}`)
+      );
+  }
+
+  /**
+   * Tokens of the call argument starting at `start`, up to the next top-level `,` or `)`
+   */
+  private static argument(code: GlslToken[], start: number): GlslToken[] {
+    let depth = 0;
+
+    for (let i = start; i < code.length; i++) {
+      const value = code[i].value;
+      if (value === "(" || value === "[") depth++;
+      if (value === ")" || value === "]") {
+        if (depth === 0) return code.slice(start, i);
+        depth--;
+      }
+      if (value === "," && depth === 0) return code.slice(start, i);
+    }
+
+    return code.slice(start);
+  }
+
+  private static isNonNegative(expression: GlslToken[]): boolean {
+    const [first, second] = expression;
+    if (!first) return false;
+
+    if (expression.length === 1 && first.type === "number") return true;
+
+    // Whole expression is a single call to a non-negative function
+    if (first.type === "identifier" && NON_NEGATIVE_CALLS.has(first.value) && second?.value === "(") {
+      return this.matching(expression, 1) === expression.length - 1;
+    }
+
+    return false;
+  }
+
+  /**
+   * `(a - b)` as a whole parenthesized divisor
+   */
+  private static isDifference(code: GlslToken[], open: number): boolean {
+    const close = this.matching(code, open);
+    let depth = 0;
+
+    for (let i = open + 1; i < close; i++) {
+      if (code[i].value === "(") depth++;
+      if (code[i].value === ")") depth--;
+      // Binary minus only; `-` after another operator is a sign
+      const prev = code[i - 1];
+      const binary = i > open + 1 && (prev.type !== "operator" || prev.value === ")" || prev.value === "]");
+      if (depth === 0 && code[i].value === "-" && binary) return true;
+    }
+
+    return false;
+  }
+
+  private static matching(code: GlslToken[], open: number): number {
+    const opener = code[open].value;
+    const closer = opener === "(" ? ")" : "}";
+    let depth = 0;
+
+    for (let i = open; i < code.length; i++) {
+      if (code[i].value === opener) depth++;
+      if (code[i].value === closer && --depth === 0) return i;
+    }
+
+    return code.length - 1;
+  }
+
+  private static warning(rule: GlslLintRule, token: GlslToken, message: string): GlslLintWarning {
+    return { rule, line: token.line, column: token.column, message };
+  }
+}
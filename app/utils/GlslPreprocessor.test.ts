@@ -0,0 +1,149 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { GlslPreprocessor } from "./GlslPreprocessor";
+import { ShaderCompat } from "./ShaderCompact";
+
+// Real Shadertoy shaders, separated by "Example N:" lines
+const corpus = readFileSync(
+  new URL("../../shadertoyExamples.txt", import.meta.url),
+  "utf8"
+)
+  .split(/^Example \d+:\s*$/m)
+  .map((source) => source.trim())
+  .filter(Boolean);
+
+describe("GlslPreprocessor", () => {
+  it("keeps a backslash-continued directive as one token", () => {
+    const source = "#define MIX(a, b) \\\n  mix(a, b, 0.5)\nfloat x;\n";
+    const tokens = GlslPreprocessor.tokenize(source);
+    const directive = tokens.find((token) => token.type === "directive")!;
+
+    expect(directive.value).toBe("#define MIX(a, b) \\\n  mix(a, b, 0.5)");
+    expect(tokens.filter((token) => token.type === "directive")).toHaveLength(1);
+    // The next line keeps its original position
+    expect(tokens.find((token) => token.value === "float")?.line).toBe(3);
+
+    const parsed = GlslPreprocessor.parseDirective(directive);
+    expect(parsed.name).toBe("define");
+    expect(parsed.body).toBe("MIX(a, b)    mix(a, b, 0.5)");
+    expect(parsed.lineCount).toBe(2);
+  });
+
+  it("matches #ifdef, #else and #endif", () => {
+    const source = "#ifdef HQ\nfloat q = 1.0;\n#else\nfloat q = 0.5;\n#endif\n";
+    const { blocks, errors } = GlslPreprocessor.conditionalBlocks(
+      GlslPreprocessor.tokenize(source)
+    );
+
+    expect(errors).toEqual([]);
+    expect(blocks).toEqual([{ startLine: 1, endLine: 5, depth: 0 }]);
+  });
+
+  it("reports unbalanced conditionals", () => {
+    const unterminated = GlslPreprocessor.conditionalBlocks(
+      GlslPreprocessor.tokenize("#ifdef HQ\nfloat q;\n")
+    );
+    expect(unterminated.errors).toEqual([
+      { line: 1, message: "Unterminated #ifdef block" },
+    ]);
+
+    const stray = GlslPreprocessor.conditionalBlocks(
+      GlslPreprocessor.tokenize("float q;\n#else\n#endif\n")
+    );
+    expect(stray.errors).toEqual([
+      { line: 2, message: "#else without matching #if" },
+      { line: 3, message: "#endif without matching #if" },
+    ]);
+  });
+
+  it("ignores directives inside comments", () => {
+    const tokens = GlslPreprocessor.tokenize("// #endif\n/* #if 0 */ float q;\n");
+    expect(GlslPreprocessor.conditionalBlocks(tokens).errors).toEqual([]);
+  });
+});
+
+describe("ShaderCompat preprocessing", () => {
+  it("hoists #extension above the header and keeps the source map line-aligned", () => {
+    const source = [
+      "#extension GL_EXT_shader_texture_lod : enable",
+      "float shade(vec2 p) { return p.x; }",
+      "void mainImage(out vec4 fragColor, in vec2 fragCoord) {",
+      "  fragColor = vec4(shade(fragCoord));",
+      "}",
+    ].join("\n");
+    const converted = ShaderCompat.convertShadertoyWithSourceMap(source);
+    const lines = converted.code.split("\n");
+
+    // GLSL ES only accepts extensions before any code
+    expect(lines[0]).toBe("#version 300 es");
+    expect(lines[1]).toBe("#extension GL_EXT_shader_texture_lod : enable");
+
+    // The directive's own line is left blank, every other line maps to itself
+    const passLine = (line: number) =>
+      converted.sourceMap.findIndex(
+        (location) => location?.section === "pass" && location.line === line
+      );
+    expect(lines[passLine(1)]).toBe("");
+    for (let line = 2; line <= 5; line++) {
+      expect(lines[passLine(line)]).toBe(source.split("\n")[line - 1]);
+    }
+  });
+
+  it("leaves #extension inside a conditional block in place", () => {
+    const source = [
+      "#ifdef GL_EXT_shader_texture_lod",
+      "#extension GL_EXT_shader_texture_lod : enable",
+      "#endif",
+      "void mainImage(out vec4 fragColor, in vec2 fragCoord) { fragColor = vec4(1.0); }",
+    ].join("\n");
+    const lines = ShaderCompat.convertShadertoyWithSourceMap(source).code.split("\n");
+
+    expect(lines[1]).not.toMatch(/^#extension/);
+    expect(lines).toContain("#extension GL_EXT_shader_texture_lod : enable");
+  });
+
+  it("rejects a pass with an unterminated conditional", () => {
+    expect(() =>
+      ShaderCompat.convertShadertoyWithSourceMap(
+        "#if 1\nvoid mainImage(out vec4 c, in vec2 f) { c = vec4(1.0); }\n"
+      )
+    ).toThrow("Image line 1: Unterminated #if block");
+  });
+});
+
+describe("GlslPreprocessor corpus", () => {
+  it("finds the examples", () => {
+    expect(corpus.length).toBeGreaterThan(0);
+  });
+
+  describe.each(corpus.map((source, i) => [i + 1, source] as const))(
+    "example %i",
+    (_, source) => {
+      it("round-trips tokens to the original source", () => {
+        const tokens = GlslPreprocessor.tokenize(source);
+        expect(tokens.map((token) => token.value).join("")).toBe(source);
+      });
+
+      it("balances its conditionals", () => {
+        const { errors } = GlslPreprocessor.conditionalBlocks(
+          GlslPreprocessor.tokenize(source)
+        );
+        expect(errors).toEqual([]);
+      });
+
+      it("converts with a source map", () => {
+        const converted = ShaderCompat.convertShadertoyWithSourceMap(source);
+        const lines = converted.code.split("\n");
+
+        expect(converted.sourceMap.length).toBe(lines.length);
+        // Every mapped line is the original line it points at
+        converted.sourceMap.forEach((location, i) => {
+          if (!location) return;
+          expect(lines[i]).toBe(
+            converted.sources[location.section].split("\n")[location.line - 1]
+          );
+        });
+      });
+    }
+  );
+});
@@ -0,0 +1,310 @@
+/**
+ * Preprocessor-aware GLSL tokenizer
+ * Splits source into tokens with original line/column positions, treating each
+ * directive (including backslash continuations) as a single token
+ */
+
+export type GlslTokenType =
+  | "identifier"
+  | "number"
+  | "operator"
+  | "directive"
+  | "comment"
+  | "whitespace"
+  | "newline";
+
+export interface GlslToken {
+  type: GlslTokenType;
+  value: string;
+  // 1-based position of the first character in the original source
+  line: number;
+  column: number;
+}
+
+export interface GlslDirective {
+  // Directive name without the hash, e.g. "define", "ifdef", "version"
+  name: string;
+  // Text after the name with continuations joined and comments removed
+  body: string;
+  line: number;
+  // Number of source lines the directive spans (continuations included)
+  lineCount: number;
+  token: GlslToken;
+}
+
+export interface GlslPreprocessorError {
+  line: number;
+  message: string;
+}
+
+export interface GlslConditionalBlock {
+  // Line of the opening #if / #ifdef / #ifndef
+  startLine: number;
+  // Line of the matching #endif
+  endLine: number;
+  depth: number;
+}
+
+const CONDITIONAL_OPEN = new Set(["if", "ifdef", "ifndef"]);
+
+// Longest operators first so ">>=" wins over ">>" and ">"
+const OPERATORS = [
+  "<<=", ">>=", "++", "--", "<<", ">>", "<=", ">=", "==", "!=", "&&", "||",
+  "^^", "+=", "-=", "*=", "/=", "%=", "&=", "^=", "|=",
+];
+
+const isIdentifierStart = (char: string) => /[A-Za-z_]/.test(char);
+const isIdentifierPart = (char: string) => /[A-Za-z0-9_]/.test(char);
+const isDigit = (char: string) => char >= "0" && char <= "9";
+
+export class GlslPreprocessor {
+  /**
+   * Tokenize GLSL source
+   * Concatenating every token value reproduces the input exactly
+   */
+  static tokenize(source: string): GlslToken[] {
+    const tokens: GlslToken[] = [];
+    let pos = 0;
+    let line = 1;
+    let column = 1;
+    // Only whitespace and comments seen since the last newline
+    let atLineStart = true;
+
+    const push = (type: GlslTokenType, value: string) => {
+      tokens.push({ type, value, line, column });
+
+      for (const char of value) {
+        if (char === "\n") {
+          line++;
+          column = 1;
+        } else {
+          column++;
+        }
+      }
+      pos += value.length;
+    };
+
+    while (pos < source.length) {
+      const char = source[pos];
+      const next = source[pos + 1] ?? "";
+
+      if (char === "\n") {
+        push("newline", "\n");
+        atLineStart = true;
+        continue;
+      }
+
+      // Line continuation outside directives behaves like whitespace
+      if (char === "\\" && (next === "\n" || (next === "\r" && source[pos + 2] === "\n"))) {
+        push("whitespace", next === "\n" ? "\\\n" : "\\\r\n");
+        continue;
+      }
+
+      if (char === " " || char === "\t" || char === "\r" || char === "\f" || char === "\v") {
+        let end = pos + 1;
+        while (end < source.length && /[ \t\r\f\v]/.test(source[end])) end++;
+        push("whitespace", source.slice(pos, end));
+        continue;
+      }
+
+      if (char === "/" && next === "/") {
+        push("comment", source.slice(pos, this.lineCommentEnd(source, pos)));
+        continue;
+      }
+
+      if (char === "/" && next === "*") {
+        const close = source.indexOf("*/", pos + 2);
+        push("comment", source.slice(pos, close === -1 ? source.length : close + 2));
+        continue;
+      }
+
+      if (char === "#" && atLineStart) {
+        push("directive", source.slice(pos, this.directiveEnd(source, pos)));
+        atLineStart = false;
+        continue;
+      }
+
+      atLineStart = false;
+
+      if (isIdentifierStart(char)) {
+        let end = pos + 1;
+        while (end < source.length && isIdentifierPart(source[end])) end++;
+        push("identifier", source.slice(pos, end));
+        continue;
+      }
+
+      if (isDigit(char) || (char === "." && isDigit(next))) {
+        push("number", source.slice(pos, this.numberEnd(source, pos)));
+        continue;
+      }
+
+      const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+      push("operator", operator ?? char);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Parse directive tokens into name/body pairs
+   */
+  static directives(tokens: GlslToken[]): GlslDirective[] {
+    return tokens
+      .filter((token) => token.type === "directive")
+      .map((token) => this.parseDirective(token));
+  }
+
+  static parseDirective(token: GlslToken): GlslDirective {
+    const joined = token.value
+      .replace(/\\\r?\n/g, " ")
+      .replace(/\/\*[\s\S]*?\*\//g, " ")
+      .replace(/\/\/.*$/, "");
+    const match = joined.match(/^#\s*(\w*)\s*([\s\S]*)$/);
+
+    return {
+      name: match?.[1] ?? "",
+      body: (match?.[2] ?? "").trim(),
+      line: token.line,
+      lineCount: token.value.split("\n").length,
+      token,
+    };
+  }
+
+  /**
+   * Match #if/#ifdef/#ifndef with #else/#elif/#endif
+   * Reports unbalanced or misplaced conditional directives
+   */
+  static conditionalBlocks(tokens: GlslToken[]): {
+    blocks: GlslConditionalBlock[];
+    errors: GlslPreprocessorError[];
+  } {
+    const blocks: GlslConditionalBlock[] = [];
+    const errors: GlslPreprocessorError[] = [];
+    const stack: { line: number; name: string; seenElse: boolean }[] = [];
+
+    for (const directive of this.directives(tokens)) {
+      if (CONDITIONAL_OPEN.has(directive.name)) {
+        stack.push({ line: directive.line, name: directive.name, seenElse: false });
+        continue;
+      }
+
+      if (directive.name === "elif" || directive.name === "else") {
+        const open = stack[stack.length - 1];
+        if (!open) {
+          errors.push({ line: directive.line, message: `#${directive.name} without matching #if` });
+        } else if (open.seenElse) {
+          errors.push({ line: directive.line, message: `#${directive.name} after #else` });
+        } else if (directive.name === "else") {
+          open.seenElse = true;
+        }
+        continue;
+      }
+
+      if (directive.name === "endif") {
+        const open = stack.pop();
+        if (!open) {
+          errors.push({ line: directive.line, message: "#endif without matching #if" });
+        } else {
+          blocks.push({ startLine: open.line, endLine: directive.line, depth: stack.length });
+        }
+      }
+    }
+
+    for (const open of stack) {
+      errors.push({ line: open.line, message: `Unterminated #${open.name} block` });
+    }
+
+    return { blocks, errors };
+  }
+
+  /**
+   * Check whether a function is defined (not just declared) outside comments
+   * Looks for `<name> ( ... ) {` at the token level, so macros and comments can't fool it
+   */
+  static hasFunctionDefinition(tokens: GlslToken[], name: string): boolean {
+    const code = tokens.filter(
+      (token) =>
+        token.type !== "whitespace" &&
+        token.type !== "newline" &&
+        token.type !== "comment" &&
+        token.type !== "directive"
+    );
+
+    for (let i = 0; i < code.length - 1; i++) {
+      if (code[i].value !== name || code[i + 1].value !== "(") continue;
+
+      // Skip the parameter list and look at what follows it
+      let depth = 0;
+      for (let j = i + 1; j < code.length; j++) {
+        if (code[j].value === "(") depth++;
+        if (code[j].value === ")") depth--;
+        if (depth === 0) {
+          if (code[j + 1]?.value === "{") return true;
+          break;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  private static lineCommentEnd(source: string, start: number): number {
+    let end = start;
+    while (end < source.length && source[end] !== "\n") {
+      // Backslash-newline continues a line comment
+      if (source[end] === "\\" && source[end + 1] === "\n") end++;
+      end++;
+    }
+    return end;
+  }
+
+  /**
+   * A directive runs to the first newline that isn't escaped or inside a block comment
+   */
+  private static directiveEnd(source: string, start: number): number {
+    let end = start;
+
+    while (end < source.length && source[end] !== "\n") {
+      if (source[end] === "\\" && source[end + 1] === "\n") {
+        end += 2;
+        continue;
+      }
+      if (source[end] === "\\" && source[end + 1] === "\r" && source[end + 2] === "\n") {
+        end += 3;
+        continue;
+      }
+      if (source[end] === "/" && source[end + 1] === "*") {
+        const close = source.indexOf("*/", end + 2);
+        end = close === -1 ? source.length : close + 2;
+        continue;
+      }
+      if (source[end] === "/" && source[end + 1] === "/") {
+        return this.lineCommentEnd(source, end);
+      }
+      end++;
+    }
+
+    return end;
+  }
+
+  private static numberEnd(source: string, start: number): number {
+    let end = start;
+
+    if (source[end] === "0" && /[xX]/.test(source[end + 1] ?? "")) {
+      end += 2;
+      while (end < source.length && /[0-9a-fA-F]/.test(source[end])) end++;
+    } else {
+      while (end < source.length && /[0-9.]/.test(source[end])) end++;
+      if (/[eE]/.test(source[end] ?? "")) {
+        end++;
+        if (/[+-]/.test(source[end] ?? "")) end++;
+        while (end < source.length && isDigit(source[end])) end++;
+      }
+    }
+
+    // Suffixes: 1u, 1.0f (ES 3.0 accepts u/U, and f/F as extensions)
+    if (/[uUfF]/.test(source[end] ?? "")) end++;
+
+    return end;
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { GlslUpgrader } from "./GlslUpgrader";
+
+const glslSandbox = [
+  "#ifdef GL_ES",
+  "precision mediump float;",
+  "#endif",
+  "uniform float time;",
+  "uniform vec2 resolution;",
+  "uniform sampler2D backbuffer;",
+  "varying vec2 vUv;",
+  "void main(void) {",
+  "  vec2 p = gl_FragCoord.xy / resolution;",
+  "  gl_FragColor = texture2D(backbuffer, vUv) * sin(time);",
+  "}",
+].join("\n");
+
+describe("GlslUpgrader", () => {
+  it("detects legacy sources", () => {
+    expect(GlslUpgrader.isLegacy(glslSandbox)).toBe(true);
+    expect(
+      GlslUpgrader.isLegacy(
+        "void mainImage(out vec4 fragColor, in vec2 fragCoord) { fragColor = vec4(1.0); }"
+      )
+    ).toBe(false);
+  });
+
+  it("upgrades a glslsandbox shader to mainImage without moving lines", () => {
+    const { source, changes } = GlslUpgrader.upgrade(glslSandbox);
+    const lines = source.split("\n");
+
+    expect(lines).toHaveLength(glslSandbox.split("\n").length);
+    expect(lines[1].trim()).toBe("");
+    expect(lines[3].trim()).toBe("");
+    expect(lines[7]).toBe("void mainImage(out vec4 fragColor, in vec2 fragCoord) {");
+    expect(lines[8]).toBe("  vec2 p = gl_FragCoord.xy / iResolution.xy;");
+    expect(lines[9]).toBe(
+      "  fragColor = texture(iChannel0, (gl_FragCoord.xy / iResolution.xy)) * sin(iTime);"
+    );
+
+    const messages = changes.map((change) => change.message);
+    expect(messages).toContain("Uniform `float time` → `iTime`");
+    expect(messages).toContain("Sampler `backbuffer` → `iChannel0` (bind it in Channel Inputs)");
+    expect(changes.map((change) => change.line)).toEqual(
+      [...changes.map((change) => change.line)].sort((a, b) => a - b)
+    );
+  });
+
+  it("keeps names that shadow a mapped uniform", () => {
+    const { source } = GlslUpgrader.upgrade(
+      [
+        "uniform vec2 resolution;",
+        "vec2 fit(vec2 resolution, vec2 p) { return p; }",
+        "void main() { gl_FragColor = vec4(fit(resolution, gl_FragCoord.xy), 0.0, 1.0); }",
+      ].join("\n")
+    );
+    const lines = source.split("\n");
+
+    expect(lines[1]).toBe("vec2 fit(vec2 resolution, vec2 p) { return p; }");
+    expect(lines[2]).toContain("fit(iResolution.xy, gl_FragCoord.xy)");
+  });
+
+  it("leaves member access alone", () => {
+    const { source } = GlslUpgrader.upgrade(
+      [
+        "uniform float time;",
+        "struct S { float time; };",
+        "void main() { S s; s.time = time; gl_FragColor = vec4(s.time); }",
+      ].join("\n")
+    );
+
+    expect(source.split("\n")[2]).toContain(
+      "{ S s; s.time = iTime; fragColor = vec4(s.time); }"
+    );
+  });
+
+  it("drops #version and core extensions", () => {
+    const { source, changes } = GlslUpgrader.upgrade(
+      [
+        "#version 100",
+        "#extension GL_OES_standard_derivatives : enable",
+        "void main() { gl_FragColor = vec4(dFdx(gl_FragCoord.x)); }",
+      ].join("\n")
+    );
+
+    expect(source.startsWith("\n\nvoid mainImage(")).toBe(true);
+    expect(changes.map((change) => change.message)).toEqual([
+      "Removed `#version 100`",
+      "Removed `#extension GL_OES_standard_derivatives` (core in GLSL ES 3.00)",
+      "`gl_FragColor` → `fragColor` (1 use)",
+      "`void main()` → `void mainImage(out vec4 fragColor, in vec2 fragCoord)`",
+    ]);
+  });
+
+  it("modernizes built-ins but keeps main() and the shader's own uniforms", () => {
+    const { source } = GlslUpgrader.modernize(
+      [
+        "precision highp float;",
+        "uniform vec2 u_resolution;",
+        "uniform float u_speed;",
+        "uniform sampler2D u_tex;",
+        "void main() {",
+        "  gl_FragColor = texture2D(u_tex, gl_FragCoord.xy / u_resolution) * u_speed;",
+        "}",
+      ].join("\n"),
+      ["u_resolution"],
+      "u_resolution"
+    );
+    const lines = source.split("\n");
+
+    expect(lines[0].trim()).toBe("");
+    expect(lines[1].trim()).toBe("");
+    expect(lines[2]).toBe("uniform float u_speed;");
+    expect(lines[3]).toBe("uniform sampler2D u_tex;");
+    expect(lines[4]).toBe("void main() {");
+    expect(lines[5]).toBe(
+      "  fragColor = texture(u_tex, gl_FragCoord.xy / u_resolution) * u_speed;"
+    );
+  });
+
+  it("blanks precision statements but keeps qualifiers", () => {
+    const source = "precision mediump float;\nhighp vec3 p;\n";
+    const stripped = GlslUpgrader.stripPrecision(source);
+
+    expect(stripped.source).toBe("\nhighp vec3 p;\n");
+    expect(stripped.changes).toEqual([
+      { line: 1, message: "Removed `precision mediump float;` (the harness declares float precision)" },
+    ]);
+    expect(GlslUpgrader.usesQualifier(source, "highp")).toBe(true);
+    expect(GlslUpgrader.usesQualifier("precision highp float;\n", "highp")).toBe(false);
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * GLSL ES 1.0 / WebGL1 upgrader
+ * Rewrites legacy fragment shaders (gl_FragColor, texture2D, varying, void main()
+ * with time/resolution uniforms) into Shadertoy-style mainImage code. Edits are
+ * made token by token without adding or removing lines, so compile errors still
+ * point at the lines the user wrote
+ */
+
+import { GlslPreprocessor, GlslToken } from "./GlslPreprocessor";
+
+export interface GlslUpgradeChange {
+  line: number;
+  message: string;
+}
+
+export interface GlslUpgradeResult {
+  source: string;
+  changes: GlslUpgradeChange[];
+}
+
+// Uniform naming conventions (glslsandbox, glslCanvas, three.js demos) keyed by
+// declared type, mapped to Shadertoy expressions
+const UNIFORM_ALIASES: Record<string, Record<string, string>> = {
+  time: { float: "iTime" },
+  u_time: { float: "iTime" },
+  uTime: { float: "iTime" },
+  iGlobalTime: { float: "iTime" },
+  globalTime: { float: "iTime" },
+  resolution: { vec2: "iResolution.xy", vec3: "iResolution" },
+  u_resolution: { vec2: "iResolution.xy", vec3: "iResolution" },
+  uResolution: { vec2: "iResolution.xy", vec3: "iResolution" },
+  // glslsandbox passes the mouse normalized to 0..1
+  mouse: { vec2: "(iMouse.xy / iResolution.xy)", vec4: "iMouse" },
+  u_mouse: { vec2: "iMouse.xy", vec4: "iMouse" },
+  uMouse: { vec2: "iMouse.xy", vec4: "iMouse" },
+  frame: { int: "iFrame", float: "float(iFrame)" },
+  u_frame: { int: "iFrame", float: "float(iFrame)" },
+  uFrame: { int: "iFrame", float: "float(iFrame)" },
+  u_delta: { float: "iTimeDelta" },
+  u_timeDelta: { float: "iTimeDelta" },
+  timeDelta: { float: "iTimeDelta" },
+  date: { vec4: "iDate" },
+  u_date: { vec4: "iDate" },
+};
+
+// Varyings a fullscreen vertex shader would have supplied, given the resolution uniform
+const varyingAliases = (resolution: string): { pattern: RegExp; replacement: string }[] => {
+  const fragUv = `(gl_FragCoord.xy / ${resolution}.xy)`;
+  return [
+    { pattern: /^(v_?|f_?)?(uv|texcoord|tex_coord|texcoords)0?$/i, replacement: fragUv },
+    {
+      pattern: /^surfacePosition$/,
+      replacement: `((${fragUv} * 2.0 - 1.0) * vec2(${resolution}.x / ${resolution}.y, 1.0))`,
+    },
+  ];
+};
+
+const BUILTIN_RENAMES: Record<string, string> = {
+  texture2D: "texture",
+  texture2DProj: "textureProj",
+  texture2DLod: "textureLod",
+  texture2DLodEXT: "textureLod",
+  texture2DProjLod: "textureProjLod",
+  texture2DGradEXT: "textureGrad",
+  textureCube: "texture",
+  textureCubeLod: "textureLod",
+  textureCubeLodEXT: "textureLod",
+  gl_FragColor: "fragColor",
+};
+
+// Extensions whose features are core in GLSL ES 3.00
+const CORE_EXTENSIONS = new Set([
+  "GL_OES_standard_derivatives",
+  "GL_EXT_shader_texture_lod",
+  "GL_EXT_frag_depth",
+  "GL_EXT_draw_buffers",
+]);
+
+const LEGACY_MARKERS = new Set([
+  "gl_FragColor",
+  "gl_FragData",
+  "texture2D",
+  "textureCube",
+  "varying",
+  "attribute",
+]);
+
+const CHANNEL_COUNT = 4;
+
+// A name right after one of these is being declared, e.g. a parameter
+// shadowing a uniform, and keeps its name
+const DECLARATION_TYPES = new Set([
+  "float", "int", "uint", "bool",
+  "vec2", "vec3", "vec4", "ivec2", "ivec3", "ivec4",
+  "uvec2", "uvec3", "uvec4", "bvec2", "bvec3", "bvec4",
+  "mat2", "mat3", "mat4", "mat2x2", "mat2x3", "mat2x4",
+  "mat3x2", "mat3x3", "mat3x4", "mat4x2", "mat4x3", "mat4x4",
+  "sampler2D", "sampler3D", "samplerCube",
+]);
+
+interface UpgradeTarget {
+  // Uniform holding the viewport size in pixels
+  resolution: string;
+  // Map uniforms and samplers onto Shadertoy inputs and void main() onto mainImage
+  shadertoy: boolean;
+  // Uniforms the harness header already declares
+  provided: Set<string>;
+}
+
+export class GlslUpgrader {
+  /**
+   * ES 1.0 source without a mainImage: uses ES 1.0-only built-ins or declares #version 100
+   */
+  static isLegacy(source: string): boolean {
+    const tokens = GlslPreprocessor.tokenize(source);
+    if (GlslPreprocessor.hasFunctionDefinition(tokens, "mainImage")) return false;
+
+    return tokens.some(
+      (token) =>
+        (token.type === "identifier" && LEGACY_MARKERS.has(token.value)) ||
+        (token.type === "directive" && /^#\s*version\s+100\b/.test(token.value))
+    );
+  }
+
+  /**
+   * Rewrite a legacy shader and list every change made
+   */
+  static upgrade(source: string): GlslUpgradeResult {
+    return this.rewrite(source, { resolution: "iResolution", shadertoy: true, provided: new Set() });
+  }
+
+  /**
+   * Port ES 1.0 built-ins to ES 3.00 but keep `void main()` and the shader's own
+   * uniform names, for harnesses that declare those uniforms themselves
+   */
+  static modernize(source: string, provided: string[], resolution: string): GlslUpgradeResult {
+    return this.rewrite(source, { resolution, shadertoy: false, provided: new Set(provided) });
+  }
+
+  /**
+   * Blank top-level precision statements so the harness default applies
+   */
+  static stripPrecision(source: string): GlslUpgradeResult {
+    const tokens = GlslPreprocessor.tokenize(source).map((token) => ({ ...token }));
+    const changes: GlslUpgradeChange[] = [];
+
+    for (const statement of this.topLevelStatements(tokens)) {
+      const change = this.removePrecision(tokens, statement);
+      if (change) changes.push(change);
+    }
+
+    return { source: tokens.map((token) => token.value).join(""), changes };
+  }
+
+  /**
+   * Whether code other than top-level precision statements names a qualifier,
+   * e.g. `highp vec3 p` or a precision statement inside a function
+   */
+  static usesQualifier(source: string, qualifier: string): boolean {
+    return GlslPreprocessor.tokenize(this.stripPrecision(source).source).some(
+      (token) => token.type === "identifier" && token.value === qualifier
+    );
+  }
+
+  private static rewrite(source: string, target: UpgradeTarget): GlslUpgradeResult {
+    const tokens = GlslPreprocessor.tokenize(source).map((token) => ({ ...token }));
+    const changes: GlslUpgradeChange[] = [];
+    const replacements = new Map<string, string>();
+    let nextChannel = 0;
+
+    this.upgradeDirectives(tokens, changes);
+
+    // Declarations: precision statements, uniforms, varyings and attributes
+    for (const statement of this.topLevelStatements(tokens)) {
+      const precision = this.removePrecision(tokens, statement);
+      if (precision) {
+        changes.push(precision);
+        continue;
+      }
+
+      const words = statement.map((i) => tokens[i]).filter((t) => this.isCode(t));
+      const qualifier = words[0]?.value;
+      const line = words[0]?.line ?? 0;
+
+      if (qualifier !== "uniform" && qualifier !== "varying" && qualifier !== "attribute") continue;
+
+      const declaration = this.parseDeclaration(words.slice(1));
+      if (!declaration) continue;
+      const { type, declarators } = declaration;
+      const names = declarators.map((d) => d.name);
+      const kept: string[] = [];
+
+      for (const { name, text } of declarators) {
+        const keep = () => kept.push(text);
+
+        if (qualifier === "uniform" && target.provided.has(name)) {
+          changes.push({ line, message: `Removed \`uniform ${type} ${name}\` (declared by the harness)` });
+          continue;
+        }
+
+        if (qualifier === "uniform" && !target.shadertoy) {
+          keep();
+          continue;
+        }
+
+        if (qualifier === "uniform" && type === "sampler2D") {
+          if (nextChannel >= CHANNEL_COUNT) {
+            keep();
+            changes.push({ line, message: `Sampler \`${name}\` kept: only ${CHANNEL_COUNT} channels are available` });
+            continue;
+          }
+          const channel = `iChannel${nextChannel++}`;
+          replacements.set(name, channel);
+          changes.push({ line, message: `Sampler \`${name}\` → \`${channel}\` (bind it in Channel Inputs)` });
+          continue;
+        }
+
+        if (qualifier === "uniform") {
+          const alias = UNIFORM_ALIASES[name]?.[type];
+          if (alias) {
+            replacements.set(name, alias);
+            changes.push({ line, message: `Uniform \`${type} ${name}\` → \`${alias}\`` });
+          } else {
+            keep();
+            changes.push({ line, message: `Uniform \`${type} ${name}\` has no Shadertoy equivalent and will read as 0` });
+          }
+          continue;
+        }
+
+        const alias = varyingAliases(target.resolution).find((entry) => type === "vec2" && entry.pattern.test(name));
+        if (alias) {
+          replacements.set(name, alias.replacement);
+          changes.push({ line, message: `${qualifier} \`${name}\` → \`${alias.replacement}\`` });
+        } else {
+          keep();
+          changes.push({ line, message: `${qualifier} \`${type} ${name}\` has no vertex stage to supply it; now a global set to zero` });
+        }
+      }
+
+      if (qualifier !== "uniform") {
+        // Unsupported varyings become zero-initialized globals
+        this.blank(tokens, statement);
+        tokens[statement[0]].value += names
+          .filter((name) => !replacements.has(name))
+          .map((name) => `${type} ${name} = ${type}(0.0);`)
+          .join(" ");
+      } else if (kept.length < declarators.length) {
+        // Drop mapped and harness-declared names so they aren't redeclared
+        this.blank(tokens, statement);
+        if (kept.length > 0) {
+          tokens[statement[0]].value += `uniform ${type} ${kept.join(", ")};`;
+        }
+      }
+    }
+
+    this.upgradeIdentifiers(tokens, replacements, changes);
+    if (target.shadertoy) this.upgradeMain(tokens, changes);
+
+    return {
+      source: tokens.map((token) => token.value).join(""),
+      changes: changes.sort((a, b) => a.line - b.line),
+    };
+  }
+
+  private static upgradeDirectives(tokens: GlslToken[], changes: GlslUpgradeChange[]) {
+    for (const token of tokens) {
+      if (token.type !== "directive") continue;
+
+      const directive = GlslPreprocessor.parseDirective(token);
+      const blank = "\n".repeat(directive.lineCount - 1);
+
+      if (directive.name === "version") {
+        token.value = blank;
+        changes.push({ line: token.line, message: `Removed \`#version ${directive.body}\`` });
+      } else if (directive.name === "extension") {
+        const name = directive.body.split(":")[0].trim();
+        if (CORE_EXTENSIONS.has(name)) {
+          token.value = blank;
+          changes.push({ line: token.line, message: `Removed \`#extension ${name}\` (core in GLSL ES 3.00)` });
+        }
+      }
+    }
+  }
+
+  private static upgradeIdentifiers(
+    tokens: GlslToken[],
+    replacements: Map<string, string>,
+    changes: GlslUpgradeChange[]
+  ) {
+    const renamed = new Map<string, { to: string; line: number; count: number }>();
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type !== "identifier") continue;
+
+      // Member access such as `p.time` is not the uniform
+      const prev = this.previousCode(tokens, i);
+      if (prev?.value === ".") continue;
+
+      if (replacements.has(token.value)) {
+        if (prev && DECLARATION_TYPES.has(prev.value)) continue;
+        token.value = replacements.get(token.value)!;
+        continue;
+      }
+
+      let replacement = BUILTIN_RENAMES[token.value];
+
+      // gl_FragData[0] → fragColor
+      if (token.value === "gl_FragData") {
+        const close = tokens.findIndex((t, index) => index > i && t.value === "]");
+        const index = tokens.slice(i + 1, close).map((t) => t.value).join("").trim();
+        if (index === "[0") {
+          for (let j = i + 1; j <= close; j++) tokens[j].value = "";
+          replacement = "fragColor";
+        }
+      }
+
+      if (!replacement) continue;
+
+      const entry = renamed.get(token.value) ?? { to: replacement, line: token.line, count: 0 };
+      entry.count++;
+      renamed.set(token.value, entry);
+      token.value = replacement;
+    }
+
+    for (const [from, { to, line, count }] of renamed) {
+      changes.push({ line, message: `\`${from}\` → \`${to}\` (${count} use${count === 1 ? "" : "s"})` });
+    }
+  }
+
+  /**
+   * void main() / void main(void) → void mainImage(out vec4 fragColor, in vec2 fragCoord)
+   */
+  private static upgradeMain(tokens: GlslToken[], changes: GlslUpgradeChange[]) {
+    const code = tokens
+      .map((token, index) => ({ token, index }))
+      .filter(({ token }) => this.isCode(token));
+    let depth = 0;
+
+    for (let i = 0; i < code.length; i++) {
+      const { token } = code[i];
+      if (token.value === "{") depth++;
+      if (token.value === "}") depth--;
+      if (depth !== 0 || token.value !== "main" || code[i - 1]?.token.value !== "void") continue;
+      if (code[i + 1]?.token.value !== "(") continue;
+
+      const close = code.findIndex((entry, index) => index > i && entry.token.value === ")");
+      if (close === -1 || code[close + 1]?.token.value !== "{") continue;
+
+      // Rewrite `main(...)` in place, keeping any newlines inside the parentheses
+      for (let j = code[i].index + 1; j <= code[close].index; j++) {
+        if (tokens[j].type !== "newline") tokens[j].value = "";
+      }
+      token.value = "mainImage(out vec4 fragColor, in vec2 fragCoord)";
+      changes.push({ line: token.line, message: "`void main()` → `void mainImage(out vec4 fragColor, in vec2 fragCoord)`" });
+      return;
+    }
+  }
+
+  /**
+   * Token index lists for each `...;` statement at brace depth 0
+   */
+  private static topLevelStatements(tokens: GlslToken[]): number[][] {
+    const statements: number[][] = [];
+    let current: number[] = [];
+    let depth = 0;
+
+    tokens.forEach((token, index) => {
+      if (token.value === "{") depth++;
+      if (token.value === "}") {
+        depth--;
+        current = [];
+        return;
+      }
+      if (depth !== 0 || token.type === "directive") return;
+
+      if (current.length > 0 || this.isCode(token)) current.push(index);
+      if (token.value === ";") {
+        statements.push(current);
+        current = [];
+      }
+    });
+
+    return statements;
+  }
+
+  /**
+   * `[precision] type name[N], name... ;`
+   */
+  private static parseDeclaration(
+    words: GlslToken[]
+  ): { type: string; declarators: { name: string; text: string }[] } | null {
+    const rest = ["lowp", "mediump", "highp"].includes(words[0]?.value) ? words.slice(1) : words;
+    const type = rest[0]?.value;
+    if (!type) return null;
+
+    const declarators: { name: string; text: string }[] = [];
+    let current: GlslToken[] = [];
+
+    for (const token of rest.slice(1)) {
+      if (token.value === "," || token.value === ";") {
+        if (current[0]?.type === "identifier") {
+          declarators.push({ name: current[0].value, text: current.map((t) => t.value).join("") });
+        }
+        current = [];
+      } else {
+        current.push(token);
+      }
+    }
+
+    return declarators.length > 0 ? { type, declarators } : null;
+  }
+
+  /**
+   * Blank the statement if it is a precision statement
+   */
+  private static removePrecision(tokens: GlslToken[], statement: number[]): GlslUpgradeChange | null {
+    const words = statement.map((i) => tokens[i]).filter((t) => this.isCode(t));
+    if (words[0]?.value !== "precision") return null;
+
+    const text = words.map((token) => token.value).join(" ").replace(/ ;$/, ";");
+    this.blank(tokens, statement);
+    return { line: words[0].line, message: `Removed \`${text}\` (the harness declares float precision)` };
+  }
+
+  /**
+   * Empty a statement's tokens but keep its newlines so lines don't shift
+   */
+  private static blank(tokens: GlslToken[], statement: number[]) {
+    for (const index of statement) {
+      tokens[index].value = tokens[index].value.replace(/[^\n]/g, "");
+    }
+  }
+
+  private static previousCode(tokens: GlslToken[], index: number): GlslToken | undefined {
+    for (let i = index - 1; i >= 0; i--) {
+      if (this.isCode(tokens[i])) return tokens[i];
+    }
+    return undefined;
+  }
+
+  private static isCode(token: GlslToken): boolean {
+    return (
+      token.type !== "whitespace" &&
+      token.type !== "newline" &&
+      token.type !== "comment" &&
+      token.type !== "directive"
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { ImageDiff, RgbaImage } from "./ImageDiff";
+
+// Horizontal and vertical ramps, so SSIM windows have structure to compare
+const gradient = (width: number, height: number): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      data[p] = (x * 255) / (width - 1);
+      data[p + 1] = (y * 255) / (height - 1);
+      data[p + 2] = ((x + y) * 255) / (width + height - 2);
+      data[p + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const solid = (
+  width: number,
+  height: number,
+  [r, g, b]: [number, number, number]
+): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < data.length; p += 4) {
+    data.set([r, g, b, 255], p);
+  }
+  return { width, height, data };
+};
+
+const pixel = (image: RgbaImage, x: number, y: number) => {
+  const p = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(p, p + 4));
+};
+
+describe("ImageDiff", () => {
+  it("reports identical images as a perfect match", () => {
+    const image = gradient(32, 24);
+    const result = ImageDiff.compare(image, gradient(32, 24));
+
+    expect(result.psnr).toBe(Infinity);
+    expect(result.ssim).toBe(1);
+    expect(result.maxDelta).toBe(0);
+    expect(result.changedPixels).toBe(0);
+    expect(ImageDiff.isMatch(result)).toBe(true);
+  });
+
+  it("measures a known perturbation", () => {
+    const image = gradient(32, 32);
+    // Alternating ±2 on every channel: MSE 4, PSNR 10·log10(255² / 4) ≈ 42.1 dB;
+    // channels clamped at 0 or 255 lose a little of the error
+    const noisy: RgbaImage = {
+      ...image,
+      data: image.data.map((value, i) =>
+        i % 4 === 3 ? value : value + ((i >> 2) % 2 === 0 ? 2 : -2)
+      ),
+    };
+    const result = ImageDiff.compare(image, noisy);
+
+    expect(result.psnr).toBeGreaterThan(42);
+    expect(result.psnr).toBeLessThan(43);
+    expect(result.ssim).toBeGreaterThan(0.99);
+    expect(result.ssim).toBeLessThan(1);
+    expect(result.maxDelta).toBe(2);
+    expect(ImageDiff.isMatch(result)).toBe(true);
+  });
+
+  it("flags a large perturbation as changed", () => {
+    // Every channel off by 40: PSNR 10·log10(255² / 1600) ≈ 16.1 dB
+    const result = ImageDiff.compare(
+      solid(16, 16, [100, 100, 100]),
+      solid(16, 16, [140, 140, 140])
+    );
+
+    expect(result.psnr).toBeCloseTo(16.1, 1);
+    expect(result.changedRatio).toBe(1);
+    expect(ImageDiff.isMatch(result)).toBe(false);
+  });
+
+  it("rejects images of different sizes", () => {
+    const a = gradient(16, 16);
+    const b = gradient(16, 8);
+
+    expect(() => ImageDiff.compare(a, b)).toThrow("Image sizes differ: 16×16 vs 16×8");
+    expect(() => ImageDiff.psnr(a, b)).toThrow();
+    expect(() => ImageDiff.ssim(a, b)).toThrow();
+  });
+
+  it("draws unchanged pixels gray and changed ones red to yellow", () => {
+    const a = solid(4, 2, [100, 100, 100]);
+    const b = solid(4, 2, [100, 100, 100]);
+    // Small change: 16 levels, amplified 4× to a quarter of full scale
+    b.data.set([116, 100, 100], 0);
+    // Large change saturates to yellow
+    b.data.set([255, 255, 255], 4);
+
+    const { heatmap, changedPixels, changedRatio } = ImageDiff.compare(a, b);
+
+    expect(heatmap.width).toBe(4);
+    expect(heatmap.height).toBe(2);
+    expect(heatmap.data.length).toBe(4 * 2 * 4);
+    expect(changedPixels).toBe(2);
+    expect(changedRatio).toBe(2 / 8);
+
+    expect(pixel(heatmap, 0, 0)).toEqual([255, 64, 0, 255]);
+    expect(pixel(heatmap, 1, 0)).toEqual([255, 255, 0, 255]);
+    // Dimmed to 30% of the reference luma
+    expect(pixel(heatmap, 2, 0)).toEqual([30, 30, 30, 255]);
+    expect(pixel(heatmap, 3, 1)).toEqual([30, 30, 30, 255]);
+  });
+
+  it("ignores differences within the threshold", () => {
+    const result = ImageDiff.compare(
+      solid(4, 4, [100, 100, 100]),
+      solid(4, 4, [103, 100, 100]),
+      { threshold: 3 }
+    );
+
+    expect(result.maxDelta).toBe(3);
+    expect(result.changedPixels).toBe(0);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Pixel comparison for golden-image regression checks
+ * Pure TypeScript on RGBA byte arrays, no DOM or GPU, so it runs anywhere
+ * (including unit tests); alpha is ignored since canvases render opaque
+ */
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  // Row-major RGBA, 4 bytes per pixel
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+export interface ImageDiffOptions {
+  // Largest channel difference still counted as unchanged (0–255)
+  threshold?: number;
+}
+
+export interface ImageDiffResult {
+  // Peak signal-to-noise ratio in dB over RGB; Infinity for identical images
+  psnr: number;
+  // Mean structural similarity of luma, 1 for identical images
+  ssim: number;
+  // Largest channel difference of any pixel
+  maxDelta: number;
+  changedPixels: number;
+  // changedPixels over the pixel count
+  changedRatio: number;
+  // Unchanged pixels as dimmed grayscale, changed ones red (small) to yellow (large)
+  heatmap: RgbaImage;
+}
+
+// SSIM window size and step in pixels
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+// Below these the output counts as visibly changed
+const MATCH_PSNR = 40;
+const MATCH_SSIM = 0.99;
+// Differences are amplified so a few levels are still visible in the heatmap
+const HEATMAP_GAIN = 4;
+
+export class ImageDiff {
+  /**
+   * Compare two images of the same size
+   * Throws if the sizes differ
+   */
+  static compare(
+    a: RgbaImage,
+    b: RgbaImage,
+    options: ImageDiffOptions = {}
+  ): ImageDiffResult {
+    this.assertSameSize(a, b);
+
+    const threshold = options.threshold ?? 0;
+    const pixels = a.width * a.height;
+    const heatmap = new Uint8ClampedArray(pixels * 4);
+    let maxDelta = 0;
+    let changedPixels = 0;
+
+    for (let i = 0; i < pixels; i++) {
+      const p = i * 4;
+      const delta = Math.max(
+        Math.abs(a.data[p] - b.data[p]),
+        Math.abs(a.data[p + 1] - b.data[p + 1]),
+        Math.abs(a.data[p + 2] - b.data[p + 2])
+      );
+      maxDelta = Math.max(maxDelta, delta);
+
+      if (delta > threshold) {
+        changedPixels++;
+        const t = Math.min(1, (delta / 255) * HEATMAP_GAIN);
+        heatmap[p] = 255;
+        heatmap[p + 1] = Math.round(255 * t);
+        heatmap[p + 2] = 0;
+      } else {
+        const gray = Math.round(this.luma(a.data, p) * 0.3);
+        heatmap[p] = gray;
+        heatmap[p + 1] = gray;
+        heatmap[p + 2] = gray;
+      }
+      heatmap[p + 3] = 255;
+    }
+
+    return {
+      psnr: this.psnr(a, b),
+      ssim: this.ssim(a, b),
+      maxDelta,
+      changedPixels,
+      changedRatio: pixels > 0 ? changedPixels / pixels : 0,
+      heatmap: { width: a.width, height: a.height, data: heatmap },
+    };
+  }
+
+  /**
+   * Whether a comparison is close enough to count as visually unchanged
+   */
+  static isMatch(result: Pick<ImageDiffResult, "psnr" | "ssim">): boolean {
+    return result.psnr >= MATCH_PSNR && result.ssim >= MATCH_SSIM;
+  }
+
+  /**
+   * Peak signal-to-noise ratio over RGB in dB
+   */
+  static psnr(a: RgbaImage, b: RgbaImage): number {
+    this.assertSameSize(a, b);
+
+    const pixels = a.width * a.height;
+    let squaredError = 0;
+
+    for (let i = 0; i < pixels; i++) {
+      const p = i * 4;
+      for (let c = 0; c < 3; c++) {
+        const d = a.data[p + c] - b.data[p + c];
+        squaredError += d * d;
+      }
+    }
+
+    const mse = squaredError / Math.max(1, pixels * 3);
+    return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+  }
+
+  /**
+   * Mean SSIM of luma over 8×8 windows every 4 pixels
+   * Images smaller than a window are treated as one window
+   */
+  static ssim(a: RgbaImage, b: RgbaImage): number {
+    this.assertSameSize(a, b);
+
+    const { width, height } = a;
+    if (width === 0 || height === 0) return 1;
+
+    const lumaA = this.lumaPlane(a);
+    const lumaB = this.lumaPlane(b);
+    const windowW = Math.min(SSIM_WINDOW, width);
+    const windowH = Math.min(SSIM_WINDOW, height);
+    let total = 0;
+    let windows = 0;
+
+    for (let y = 0; y + windowH <= height; y += SSIM_STEP) {
+      for (let x = 0; x + windowW <= width; x += SSIM_STEP) {
+        total += this.windowSsim(lumaA, lumaB, width, x, y, windowW, windowH);
+        windows++;
+      }
+    }
+
+    return windows > 0 ? total / windows : 1;
+  }
+
+  /**
+   * Reverse the row order, e.g. for WebGL readPixels (bottom row first)
+   */
+  static flipRows(image: RgbaImage): RgbaImage {
+    const rowBytes = image.width * 4;
+    const data = new Uint8ClampedArray(image.data.length);
+
+    for (let y = 0; y < image.height; y++) {
+      const from = (image.height - 1 - y) * rowBytes;
+      data.set(image.data.subarray(from, from + rowBytes), y * rowBytes);
+    }
+
+    return { width: image.width, height: image.height, data };
+  }
+
+  private static windowSsim(
+    a: Float64Array,
+    b: Float64Array,
+    stride: number,
+    x0: number,
+    y0: number,
+    w: number,
+    h: number
+  ): number {
+    const n = w * h;
+    let sumA = 0;
+    let sumB = 0;
+
+    for (let y = y0; y < y0 + h; y++) {
+      for (let x = x0; x < x0 + w; x++) {
+        sumA += a[y * stride + x];
+        sumB += b[y * stride + x];
+      }
+    }
+
+    const meanA = sumA / n;
+    const meanB = sumB / n;
+    let varA = 0;
+    let varB = 0;
+    let covariance = 0;
+
+    for (let y = y0; y < y0 + h; y++) {
+      for (let x = x0; x < x0 + w; x++) {
+        const da = a[y * stride + x] - meanA;
+        const db = b[y * stride + x] - meanB;
+        varA += da * da;
+        varB += db * db;
+        covariance += da * db;
+      }
+    }
+
+    // Sample (co)variances
+    const norm = Math.max(1, n - 1);
+    varA /= norm;
+    varB /= norm;
+    covariance /= norm;
+
+    return (
+      ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+      ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2))
+    );
+  }
+
+  private static lumaPlane(image: RgbaImage): Float64Array {
+    const plane = new Float64Array(image.width * image.height);
+    for (let i = 0; i < plane.length; i++) {
+      plane[i] = this.luma(image.data, i * 4);
+    }
+    return plane;
+  }
+
+  // Rec. 601 luma
+  private static luma(data: RgbaImage["data"], p: number): number {
+    return 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+
+  private static assertSameSize(a: RgbaImage, b: RgbaImage): void {
+    if (a.width !== b.width || a.height !== b.height) {
+      throw new Error(
+        `Image sizes differ: ${a.width}×${a.height} vs ${b.width}×${b.height}`
+      );
+    }
+  }
+}
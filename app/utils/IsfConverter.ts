@@ -0,0 +1,423 @@
+/**
+ * ISF (Interactive Shader Format) import and export
+ * An ISF shader is a single .fs file whose leading comment is a JSON header
+ * describing its inputs, render passes and imported images. Imported shaders keep
+ * the header in their source and use the "isf" dialect, so the header stays the
+ * single description of the generated uniforms
+ */
+
+import {
+  ShaderBufferId,
+  ShaderBufferPass,
+  ShaderChannelInput,
+  ShaderDefinition,
+  ShaderInput,
+  ShaderInputType,
+} from "../components/shaders/ShaderViewer";
+import { GlslPreprocessor } from "./GlslPreprocessor";
+import { GlslUpgrader } from "./GlslUpgrader";
+
+interface IsfInput {
+  NAME: string;
+  TYPE: string;
+  LABEL?: string;
+  DEFAULT?: unknown;
+  MIN?: unknown;
+  MAX?: unknown;
+  VALUES?: number[];
+  LABELS?: string[];
+}
+
+interface IsfPass {
+  TARGET?: string;
+  PERSISTENT?: boolean | number | string;
+  FLOAT?: boolean | number | string;
+  WIDTH?: string | number;
+  HEIGHT?: string | number;
+}
+
+export interface IsfHeader {
+  DESCRIPTION?: string;
+  CREDIT?: string;
+  ISFVSN?: string;
+  CATEGORIES?: string[];
+  INPUTS?: IsfInput[];
+  PASSES?: IsfPass[];
+  // ISF 2 keys images by name; ISF 1 used an array of { NAME, PATH }
+  IMPORTED?: Record<string, { PATH?: string }> | { NAME: string; PATH?: string }[];
+}
+
+export interface IsfImport {
+  shader: Omit<ShaderDefinition, "thumbnailUrl">;
+  warnings: string[];
+}
+
+export interface IsfExport {
+  source: string;
+  // Parts of the shader that don't carry over to ISF
+  warnings: string[];
+}
+
+const GLSL_TYPES: Record<ShaderInputType, string> = {
+  float: "float",
+  long: "int",
+  bool: "bool",
+  event: "bool",
+  color: "vec4",
+  point2D: "vec2",
+};
+
+// Inputs delivered as textures rather than uniforms
+const SAMPLER_TYPES = new Set(["image", "audio", "audioFFT"]);
+
+const BUFFER_IDS: ShaderBufferId[] = ["A", "B", "C", "D"];
+
+const CHANNEL_COUNT = 4;
+
+// Shadertoy uniforms expressed through ISF built-ins, for exported shaders
+const SHADERTOY_DEFINES: [string, string][] = [
+  ["iTime", "TIME"],
+  ["iTimeDelta", "TIMEDELTA"],
+  ["iResolution", "vec3(RENDERSIZE, 1.0)"],
+  ["iFrame", "FRAMEINDEX"],
+  ["iDate", "DATE"],
+  ["iMouse", "vec4(mouse, 0.0, 0.0)"],
+];
+
+export class IsfConverter {
+  /**
+   * Whether a source starts with an ISF JSON header comment
+   */
+  static isIsf(source: string): boolean {
+    return this.headerComment(source) !== null;
+  }
+
+  /**
+   * Parse the JSON header, or null when the source has none
+   * Throws when the header exists but isn't valid JSON
+   */
+  static parseHeader(source: string): IsfHeader | null {
+    const comment = this.headerComment(source);
+    if (comment === null) return null;
+
+    try {
+      return JSON.parse(comment) as IsfHeader;
+    } catch (error) {
+      throw new Error(
+        `ISF header is not valid JSON: ${error instanceof Error ? error.message : "parse error"}`
+      );
+    }
+  }
+
+  /**
+   * Uniform-backed INPUTS as editable shader inputs
+   */
+  static inputs(header: IsfHeader): ShaderInput[] {
+    return (header.INPUTS ?? [])
+      .filter((input) => input.NAME && input.TYPE in GLSL_TYPES)
+      .map((input) => ({
+        name: input.NAME,
+        type: input.TYPE as ShaderInputType,
+        label: input.LABEL,
+        default: this.inputValue(input.DEFAULT),
+        min: this.inputRange(input.MIN),
+        max: this.inputRange(input.MAX),
+        values: input.VALUES,
+        labels: input.LABELS,
+      }));
+  }
+
+  /**
+   * Texture names in channel order: image inputs, pass targets, then imported images
+   * Only the first four get a channel
+   */
+  static channelNames(header: IsfHeader): string[] {
+    const names = [
+      ...(header.INPUTS ?? [])
+        .filter((input) => SAMPLER_TYPES.has(input.TYPE))
+        .map((input) => input.NAME),
+      ...(header.PASSES ?? []).flatMap((pass) => (pass.TARGET ? [pass.TARGET] : [])),
+      ...this.imported(header).map((image) => image.name),
+    ];
+    return [...new Set(names)];
+  }
+
+  /**
+   * Declarations the header implies: one uniform per input and a macro
+   * aliasing each texture name to its channel
+   */
+  static uniformDeclarations(header: IsfHeader): string {
+    const uniforms = this.inputs(header).map(
+      (input) => `uniform ${GLSL_TYPES[input.type]} ${input.name};`
+    );
+    const samplers = this.channelNames(header)
+      .slice(0, CHANNEL_COUNT)
+      .map((name, index) => `#define ${name} iChannel${index}`);
+
+    return ["// ISF inputs", ...uniforms, ...samplers].join("\n");
+  }
+
+  /**
+   * Names the header declares, so duplicate declarations in the code can be dropped
+   */
+  static declaredNames(header: IsfHeader): string[] {
+    return [
+      ...this.inputs(header).map((input) => input.name),
+      ...this.channelNames(header).slice(0, CHANNEL_COUNT),
+    ];
+  }
+
+  /**
+   * Map an .fs file to a ShaderDefinition, throwing if it has no header
+   * Passes with a TARGET become Buffer A–D; the last pass renders the image.
+   * Where skipped passes shift the render order, a pass gets its ISF position
+   * as `#define PASSINDEX n` on a line added after the header
+   */
+  static importShader(source: string, fileName: string): IsfImport {
+    const header = this.parseHeader(source);
+    if (!header) {
+      throw new Error("No ISF JSON header found");
+    }
+
+    const warnings: string[] = [];
+    const names = this.channelNames(header);
+    const passes = header.PASSES ?? [];
+    const targets = new Map<string, ShaderBufferId>();
+    const buffers: ShaderBufferPass[] = [];
+    const transient: string[] = [];
+    // The renderer sets PASSINDEX to the position in render order
+    const withPassIndex = (index: number, renderIndex: number) =>
+      index === renderIndex ? source : this.afterHeader(source, `#define PASSINDEX ${index}`);
+
+    passes.slice(0, -1).forEach((pass, index) => {
+      if (!pass.TARGET) {
+        warnings.push(`pass ${index}: no TARGET, pass skipped`);
+        return;
+      }
+      if (buffers.length >= BUFFER_IDS.length) {
+        warnings.push(`pass ${index}: only ${BUFFER_IDS.length} buffer passes are supported, "${pass.TARGET}" skipped`);
+        return;
+      }
+      if (pass.WIDTH !== undefined || pass.HEIGHT !== undefined) {
+        warnings.push(`pass ${index}: custom WIDTH/HEIGHT ignored, "${pass.TARGET}" renders at full resolution`);
+      }
+      if (!this.isTrue(pass.PERSISTENT)) transient.push(pass.TARGET);
+      const id = BUFFER_IDS[buffers.length];
+      targets.set(pass.TARGET, id);
+      buffers.push({ id, fragmentShader: withPassIndex(index, buffers.length) });
+    });
+
+    if (transient.length > 0) {
+      warnings.push(
+        `${transient.map((name) => `"${name}"`).join(", ")}: not PERSISTENT, but buffers keep the last frame here; passes that read them before they are drawn see the previous frame`
+      );
+    }
+
+    if (names.length > CHANNEL_COUNT) {
+      warnings.push(`${names.slice(CHANNEL_COUNT).join(", ")}: only ${CHANNEL_COUNT} textures can be bound, left unbound`);
+    }
+
+    const channels: (ShaderChannelInput | null)[] = names
+      .slice(0, CHANNEL_COUNT)
+      .map((name, index) => {
+        const buffer = targets.get(name);
+        if (buffer) return { type: "buffer", buffer };
+
+        const input = header.INPUTS?.find((entry) => entry.NAME === name);
+        if (input && input.TYPE !== "image") {
+          warnings.push(`${name}: ${input.TYPE} inputs are not supported, iChannel${index} reads black`);
+        } else {
+          const path = this.imported(header).find((image) => image.name === name)?.path;
+          warnings.push(`${name}${path ? ` (${path})` : ""}: bind an image to iChannel${index} in the channel editor`);
+        }
+        return null;
+      });
+
+    const wired = channels.some((channel) => channel !== null) ? channels : undefined;
+    const inputs = this.inputs(header);
+
+    return {
+      shader: {
+        name: fileName.replace(/\.[^.]+$/, "").trim() || "Untitled ISF",
+        author: header.CREDIT?.replace(/^by\s+/i, "").trim() || undefined,
+        description: header.DESCRIPTION || undefined,
+        fragmentShader: withPassIndex(Math.max(0, passes.length - 1), buffers.length),
+        channels: wired,
+        buffers: buffers.length > 0
+          ? buffers.map((buffer) => ({ ...buffer, channels: wired }))
+          : undefined,
+        dialect: "isf",
+        inputs: inputs.length > 0 ? inputs : undefined,
+        tags: header.CATEGORIES ?? [],
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Write a shader out as an ISF .fs file
+   * Shadertoy shaders are wrapped with a main() that calls mainImage(); only the
+   * Image pass is exported
+   */
+  static exportShader(shader: ShaderDefinition): IsfExport {
+    const dialect = shader.dialect ?? "shadertoy";
+
+    if (dialect === "isf") {
+      return { source: this.withCommon(shader.fragmentShader, shader.common), warnings: [] };
+    }
+    if (dialect !== "shadertoy") {
+      throw new Error("Only Shadertoy and ISF shaders can be exported to ISF");
+    }
+
+    const warnings: string[] = [];
+    const pass = GlslUpgrader.isLegacy(shader.fragmentShader)
+      ? GlslUpgrader.upgrade(shader.fragmentShader).source
+      : shader.fragmentShader;
+    const code = [shader.common?.trim(), pass].filter(Boolean).join("\n\n");
+    const used = new Set(
+      GlslPreprocessor.tokenize(code)
+        .filter((token) => token.type === "identifier")
+        .map((token) => token.value)
+    );
+
+    if (shader.buffers?.length) {
+      warnings.push("Buffer passes are not exported; only the Image pass is");
+    }
+
+    const inputs: IsfInput[] = (shader.inputs ?? []).map((input) => this.exportInput(input));
+    const channels = Array.from({ length: CHANNEL_COUNT }, (_, i) => i).filter(
+      (i) => used.has(`iChannel${i}`)
+    );
+
+    for (const i of channels) {
+      inputs.push({ NAME: `iChannel${i}`, TYPE: "image" });
+      const channel = shader.channels?.[i];
+      if (channel?.type === "buffer") {
+        warnings.push(`iChannel${i} reads Buffer ${channel.buffer}, which is not exported`);
+      } else if (channel?.type === "texture") {
+        warnings.push(`iChannel${i} image "${channel.name}" must be supplied by the ISF host`);
+      }
+    }
+    if (used.has("iMouse")) {
+      inputs.push({ NAME: "mouse", TYPE: "point2D", LABEL: "Mouse", DEFAULT: [0, 0] });
+    }
+
+    const header: IsfHeader = {
+      DESCRIPTION: shader.description || shader.name,
+      CREDIT: shader.author,
+      ISFVSN: "2",
+      CATEGORIES: shader.tags?.length ? shader.tags : undefined,
+      INPUTS: inputs,
+    };
+
+    const defines = SHADERTOY_DEFINES.filter(([name]) => used.has(name)).map(
+      ([name, value]) => `#define ${name} ${value}`
+    );
+    const globals: string[] = [];
+    const setup: string[] = [];
+
+    // Arrays can't be macros; fill them at the top of main() instead
+    if (used.has("iChannelResolution")) {
+      globals.push("vec3 iChannelResolution[4];");
+      setup.push(...channels.map((i) => `  iChannelResolution[${i}] = vec3(IMG_SIZE(iChannel${i}), 1.0);`));
+    }
+    if (used.has("iChannelTime")) {
+      globals.push("float iChannelTime[4];");
+    }
+
+    return {
+      source: [
+        `/*${JSON.stringify(header, null, 2)}*/`,
+        "",
+        "// Shadertoy compatibility",
+        ...defines,
+        ...globals,
+        "",
+        code,
+        "",
+        "void main() {",
+        ...setup,
+        "  mainImage(gl_FragColor, gl_FragCoord.xy);",
+        "}",
+        "",
+      ].join("\n"),
+      warnings,
+    };
+  }
+
+  /**
+   * Body of the first comment when it is a `/*{ ... }*\/` block
+   */
+  private static headerComment(source: string): string | null {
+    const first = GlslPreprocessor.tokenize(source).find(
+      (token) => token.type !== "whitespace" && token.type !== "newline"
+    );
+    if (first?.type !== "comment" || !first.value.startsWith("/*")) return null;
+
+    const body = first.value.slice(2, -2).trim();
+    return body.startsWith("{") ? body : null;
+  }
+
+  /**
+   * Insert a line right after the header comment, which must stay first
+   */
+  private static afterHeader(source: string, line: string): string {
+    let end = 0;
+    for (const token of GlslPreprocessor.tokenize(source)) {
+      end += token.value.length;
+      if (token.type === "comment") break;
+    }
+    const rest = source.slice(end);
+    return `${source.slice(0, end)}\n${line}${/^\r?\n/.test(rest) ? "" : "\n"}${rest}`;
+  }
+
+  // ISF booleans may be written as true, 1 or "true"
+  private static isTrue(value: IsfPass["PERSISTENT"]): boolean {
+    return value === true || value === 1 || value === "true" || value === "1";
+  }
+
+  private static imported(header: IsfHeader): { name: string; path?: string }[] {
+    const imported = header.IMPORTED ?? {};
+    if (Array.isArray(imported)) {
+      return imported.map((image) => ({ name: image.NAME, path: image.PATH }));
+    }
+    return Object.entries(imported).map(([name, image]) => ({ name, path: image.PATH }));
+  }
+
+  /**
+   * Common code goes right after the header so line 1 stays the JSON comment
+   */
+  private static withCommon(source: string, common?: string): string {
+    const comment = source.indexOf("*/");
+    if (!common?.trim() || comment === -1) return source;
+
+    const end = comment + 2;
+    return `${source.slice(0, end)}\n\n${common.trim()}\n${source.slice(end)}`;
+  }
+
+  private static inputValue(value: unknown): ShaderInput["default"] {
+    if (typeof value === "number" || typeof value === "boolean") return value;
+    if (Array.isArray(value) && value.every((v) => typeof v === "number")) return value;
+    return undefined;
+  }
+
+  private static inputRange(value: unknown): ShaderInput["min"] {
+    if (typeof value === "number") return value;
+    if (Array.isArray(value) && value.every((v) => typeof v === "number")) return value;
+    return undefined;
+  }
+
+  // Undefined keys are dropped by JSON.stringify
+  private static exportInput(input: ShaderInput): IsfInput {
+    return {
+      NAME: input.name,
+      TYPE: input.type,
+      LABEL: input.label,
+      DEFAULT: input.default,
+      MIN: input.min,
+      MAX: input.max,
+      VALUES: input.values,
+      LABELS: input.labels,
+    };
+  }
+}
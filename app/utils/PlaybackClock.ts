@@ -0,0 +1,106 @@
+/**
+ * Timeline behind the viewer's transport bar
+ * Keeps the playback position in seconds, so pausing, scrubbing, stepping and
+ * changing speed never jump iTime; used by the main-thread and worker loops
+ */
+
+import { DeterministicSettings } from "./DeterministicClock";
+
+export interface PlaybackSettings {
+  paused: boolean;
+  // Timeline seconds per wall-clock second
+  speed: number;
+  // Added to iTime, e.g. 10000 to expose float precision loss in time-based code
+  offset: number;
+}
+
+// Seeking and frame stepping, exposed to the transport bar
+export interface PlaybackTransport {
+  // Jump to a timeline position in seconds, offset excluded
+  seek: (time: number) => void;
+  // Move by whole frames, negative to step back
+  step: (frames: number) => void;
+}
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  paused: false,
+  speed: 1,
+  offset: 0,
+};
+
+const DEFAULT_TIMESTEP = 1 / 60;
+
+export class PlaybackClock {
+  settings: PlaybackSettings;
+  // Seconds per frame step; the deterministic clock's timestep when it is on
+  timestep = DEFAULT_TIMESTEP;
+  private position = 0;
+  private lastTick: number | null = null;
+
+  constructor(settings: PlaybackSettings = DEFAULT_PLAYBACK_SETTINGS) {
+    this.settings = settings;
+  }
+
+  /**
+   * Timeline position in seconds, offset excluded
+   */
+  get time(): number {
+    return this.position;
+  }
+
+  /**
+   * Frame of a fixed-timestep clock at the current position
+   */
+  get frame(): number {
+    return Math.round(this.position / this.timestep);
+  }
+
+  /**
+   * Wall-clock mode: advance by the time since the last tick, scaled by speed
+   * Returns the timeline seconds advanced, 0 while paused
+   */
+  tick(now: number): number {
+    const delta =
+      this.lastTick === null || this.settings.paused
+        ? 0
+        : ((now - this.lastTick) / 1000) * this.settings.speed;
+    this.lastTick = now;
+    this.position += delta;
+    return delta;
+  }
+
+  /**
+   * Fixed-timestep mode: the frame to render now, then move on by speed
+   * frames (fractional speeds hold a frame for several refreshes)
+   */
+  nextFrame(): number {
+    const frame = this.frame;
+    if (!this.settings.paused) {
+      this.position += this.settings.speed * this.timestep;
+    }
+    return frame;
+  }
+
+  /**
+   * Deterministic settings with the offset added to the start time
+   */
+  offsetSettings(settings: DeterministicSettings): DeterministicSettings {
+    return { ...settings, startTime: settings.startTime + this.settings.offset };
+  }
+
+  seek(time: number): void {
+    this.position = Math.max(0, time);
+  }
+
+  step(frames: number): void {
+    this.seek((this.frame + frames) * this.timestep);
+  }
+
+  /**
+   * Back to the start, e.g. for a newly compiled shader
+   */
+  restart(): void {
+    this.position = 0;
+    this.lastTick = null;
+  }
+}
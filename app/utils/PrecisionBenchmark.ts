@@ -0,0 +1,327 @@
+/**
+ * Back-to-back comparison of one shader compiled at different float precisions
+ * Every variant renders on the same context in alternating rounds, so clock
+ * boosts and thermal throttling hit all of them alike; stills of each variant
+ * are diffed against highp to show what the lower precision costs visually.
+ * The code's own precision statements are blanked in every variant; values it
+ * qualifies as highp stay highp, which makes the lower variants inconclusive
+ */
+
+import { ShaderInputValue } from "../components/shaders/ShaderViewer";
+import { ShaderRenderer, ShaderRendererSource } from "./ShaderRenderer";
+import { FloatPrecision } from "./ShaderCompact";
+import { GlslUpgrader } from "./GlslUpgrader";
+import { DEFAULT_DETERMINISTIC_SETTINGS } from "./DeterministicClock";
+import { ImageDiff, ImageDiffResult, RgbaImage } from "./ImageDiff";
+
+export interface PrecisionBenchmarkOptions {
+  width: number;
+  height: number;
+  // Variants to compare; highp is always included as the reference
+  precisions: FloatPrecision[];
+  // Frames per variant per round, and rounds per variant
+  frames: number;
+  rounds: number;
+  // iTime of the stills that are diffed, in seconds
+  times: number[];
+  inputs?: Record<string, ShaderInputValue>;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// What the GPU actually provides for a precision qualifier
+export interface PrecisionFormat {
+  // Mantissa bits
+  precision: number;
+  // log2 of the smallest and largest representable magnitude
+  rangeMin: number;
+  rangeMax: number;
+}
+
+export interface PrecisionDiff {
+  time: number;
+  diff: ImageDiffResult;
+}
+
+export interface PrecisionVariantResult {
+  precision: FloatPrecision;
+  format: PrecisionFormat | null;
+  // ms per frame of each round
+  frameTimes: number[];
+  medianFrameTime: number;
+  // highp median frame time over this one; above 1 is faster
+  speedup: number;
+  // One per still, against highp; empty for highp itself
+  diffs: PrecisionDiff[];
+  // Compile or link error; the variant is skipped
+  error?: string;
+  // Part of the shader is pinned to highp, so a match proves nothing
+  inconclusive: boolean;
+}
+
+export interface PrecisionBenchmarkResult {
+  width: number;
+  height: number;
+  frames: number;
+  rounds: number;
+  // The source qualifies values as highp explicitly
+  explicitHighp: boolean;
+  variants: PrecisionVariantResult[];
+}
+
+interface Variant {
+  precision: FloatPrecision;
+  renderer: ShaderRenderer | null;
+  error?: string;
+  stills: RgbaImage[];
+  frameTimes: number[];
+}
+
+const MAX_SIZE = 4096;
+// Same rate as FrameCapture stills, so times match golden images
+const STILL_FPS = 60;
+const CLOCK = { ...DEFAULT_DETERMINISTIC_SETTINGS, timestep: 1 / STILL_FPS };
+
+export class PrecisionBenchmark {
+  /**
+   * Compile every variant, diff their stills and time them in alternating rounds
+   * Throws if highp fails to compile, on invalid options or on cancellation
+   */
+  static async run(
+    source: ShaderRendererSource,
+    options: PrecisionBenchmarkOptions
+  ): Promise<PrecisionBenchmarkResult> {
+    this.validate(options);
+
+    const { width, height } = options;
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+
+    const gl = canvas.getContext("webgl2", {
+      alpha: false,
+      antialias: false,
+      depth: false,
+      stencil: false,
+      powerPreference: "high-performance",
+    });
+    if (!gl) throw new Error("WebGL2 not supported");
+
+    const precisions: FloatPrecision[] = [
+      "highp",
+      ...options.precisions.filter((precision) => precision !== "highp"),
+    ];
+    const variants: Variant[] = [];
+    const explicitHighp = [
+      source.fragmentShader,
+      source.common ?? "",
+      ...(source.buffers ?? []).map((buffer) => buffer.fragmentShader),
+    ].some((code) => GlslUpgrader.usesQualifier(code, "highp"));
+
+    try {
+      for (const precision of precisions) {
+        variants.push(this.compile(gl, source, precision, width, height));
+      }
+      const live = variants.filter((variant) => variant.renderer !== null);
+      await Promise.all(live.map((variant) => variant.renderer!.whenTexturesLoaded()));
+
+      // Stills come first, which also warms up every program before timing
+      for (const variant of live) {
+        variant.stills = options.times.map((time) =>
+          this.still(variant.renderer!, time, options)
+        );
+      }
+
+      const total = live.length * options.rounds;
+      let done = 0;
+
+      for (let round = 0; round < options.rounds; round++) {
+        // Rotate the order so no variant always runs first in a round
+        for (let i = 0; i < live.length; i++) {
+          const variant = live[(round + i) % live.length];
+          this.throwIfAborted(options.signal);
+
+          variant.frameTimes.push(
+            this.timeRound(gl, variant.renderer!, round * options.frames, options)
+          );
+          options.onProgress?.(++done, total);
+
+          // Let the page repaint between rounds
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+      }
+
+      return {
+        width,
+        height,
+        frames: options.frames,
+        rounds: options.rounds,
+        explicitHighp,
+        variants: this.results(gl, variants, options.times, explicitHighp),
+      };
+    } finally {
+      for (const variant of variants) variant.renderer?.dispose();
+      gl.getExtension("WEBGL_lose_context")?.loseContext();
+    }
+  }
+
+  /**
+   * Whether the variant looks the same as highp in every still, and really
+   * ran at its own precision
+   */
+  static isSafe(variant: PrecisionVariantResult): boolean {
+    return (
+      !variant.error &&
+      !variant.inconclusive &&
+      variant.diffs.every(({ diff }) => ImageDiff.isMatch(diff))
+    );
+  }
+
+  private static compile(
+    gl: WebGL2RenderingContext,
+    source: ShaderRendererSource,
+    precision: FloatPrecision,
+    width: number,
+    height: number
+  ): Variant {
+    try {
+      return {
+        precision,
+        renderer: new ShaderRenderer(gl, { ...source, precision }, width, height),
+        stills: [],
+        frameTimes: [],
+      };
+    } catch (error) {
+      // Without the reference there is nothing to compare against
+      if (precision === "highp") throw error;
+      return {
+        precision,
+        renderer: null,
+        error: error instanceof Error ? error.message : String(error),
+        stills: [],
+        frameTimes: [],
+      };
+    }
+  }
+
+  private static still(
+    renderer: ShaderRenderer,
+    time: number,
+    options: PrecisionBenchmarkOptions
+  ): RgbaImage {
+    renderer.renderFrame(
+      Math.max(0, Math.round(time * STILL_FPS)),
+      CLOCK,
+      options.inputs
+    );
+    return ImageDiff.flipRows({
+      width: options.width,
+      height: options.height,
+      data: renderer.readPixels(),
+    });
+  }
+
+  /**
+   * Average ms per frame over one round
+   * A one-pixel read before and after waits for the GPU, so the time covers
+   * exactly this round's draws rather than when they were queued
+   */
+  private static timeRound(
+    gl: WebGL2RenderingContext,
+    renderer: ShaderRenderer,
+    firstFrame: number,
+    options: PrecisionBenchmarkOptions
+  ): number {
+    const pixel = new Uint8Array(4);
+    const sync = () => gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.UNSIGNED_BYTE, pixel);
+
+    sync();
+    const start = performance.now();
+    for (let frame = firstFrame; frame < firstFrame + options.frames; frame++) {
+      renderer.renderFrame(frame, CLOCK, options.inputs);
+    }
+    sync();
+
+    return (performance.now() - start) / options.frames;
+  }
+
+  private static results(
+    gl: WebGL2RenderingContext,
+    variants: Variant[],
+    times: number[],
+    explicitHighp: boolean
+  ): PrecisionVariantResult[] {
+    const reference = variants[0];
+    const referenceMedian = this.median(reference.frameTimes);
+
+    return variants.map((variant) => {
+      const medianFrameTime = this.median(variant.frameTimes);
+      return {
+        precision: variant.precision,
+        format: this.format(gl, variant.precision),
+        frameTimes: variant.frameTimes,
+        medianFrameTime,
+        speedup: medianFrameTime > 0 ? referenceMedian / medianFrameTime : 0,
+        diffs:
+          variant === reference
+            ? []
+            : variant.stills.map((still, i) => ({
+                time: times[i],
+                diff: ImageDiff.compare(still, reference.stills[i]),
+              })),
+        error: variant.error,
+        inconclusive: explicitHighp && variant !== reference,
+      };
+    });
+  }
+
+  private static format(
+    gl: WebGL2RenderingContext,
+    precision: FloatPrecision
+  ): PrecisionFormat | null {
+    const type = {
+      highp: gl.HIGH_FLOAT,
+      mediump: gl.MEDIUM_FLOAT,
+      lowp: gl.LOW_FLOAT,
+    }[precision];
+    const format = gl.getShaderPrecisionFormat(gl.FRAGMENT_SHADER, type);
+    return format
+      ? {
+          precision: format.precision,
+          rangeMin: format.rangeMin,
+          rangeMax: format.rangeMax,
+        }
+      : null;
+  }
+
+  private static median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+
+  private static validate(options: PrecisionBenchmarkOptions): void {
+    const { width, height, frames, rounds, times } = options;
+
+    if (
+      !Number.isInteger(width) ||
+      !Number.isInteger(height) ||
+      width < 1 ||
+      height < 1 ||
+      width > MAX_SIZE ||
+      height > MAX_SIZE
+    ) {
+      throw new Error(`Resolution must be between 1 and ${MAX_SIZE} pixels`);
+    }
+    if (!Number.isInteger(frames) || !Number.isInteger(rounds) || frames < 1 || rounds < 1) {
+      throw new Error("Frames and rounds must be whole numbers from 1");
+    }
+    if (times.length === 0) {
+      throw new Error("Enter at least one time");
+    }
+  }
+
+  private static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new Error("Benchmark cancelled");
+  }
+}
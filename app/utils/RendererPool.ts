@@ -0,0 +1,93 @@
+/**
+ * One WebGL2 context shared by many display canvases
+ * Browsers evict the oldest contexts past roughly 16, so gallery previews and
+ * compare views render through this pool instead of a context each. Every
+ * client keeps its own ShaderRenderer (programs, targets, timer queries) on
+ * the shared context, draws into the bottom-left corner of the pool canvas
+ * and copies that region to its display canvas in the same task
+ */
+
+class RendererPoolClass {
+  private canvas: HTMLCanvasElement | null = null;
+  private gl: WebGL2RenderingContext | null = null;
+  private owners = new Set<object>();
+
+  /**
+   * The shared context, created on first use
+   * Idempotent per owner; the context lives while any owner holds it
+   */
+  acquire(owner: object): WebGL2RenderingContext | null {
+    if (!this.gl) {
+      const canvas = document.createElement("canvas");
+      const gl = canvas.getContext("webgl2", {
+        alpha: false,
+        antialias: false,
+        depth: false,
+        stencil: false,
+        powerPreference: "high-performance",
+      });
+      if (!gl) return null;
+
+      this.canvas = canvas;
+      this.gl = gl;
+    }
+
+    this.owners.add(owner);
+    return this.gl;
+  }
+
+  /**
+   * Drop an owner; the last one out releases the context
+   * Owners dispose their renderers first
+   */
+  release(owner: object): void {
+    if (!this.owners.delete(owner) || this.owners.size > 0) return;
+
+    this.gl?.getExtension("WEBGL_lose_context")?.loseContext();
+    this.gl = null;
+    this.canvas = null;
+  }
+
+  /**
+   * Canvas of the shared context, for context loss and restore events
+   */
+  get contextCanvas(): HTMLCanvasElement | null {
+    return this.canvas;
+  }
+
+  /**
+   * Grow the shared canvas to fit a width × height render
+   * Call before rendering: resizing clears the drawing buffer
+   */
+  reserve(width: number, height: number): void {
+    const canvas = this.canvas;
+    if (!canvas) return;
+
+    if (canvas.width < width) canvas.width = width;
+    if (canvas.height < height) canvas.height = height;
+  }
+
+  /**
+   * Copy the last width × height render to a display canvas
+   * Must run in the same task as the render, before the next client draws
+   */
+  present(target: CanvasRenderingContext2D, width: number, height: number): void {
+    const canvas = this.canvas;
+    if (!canvas) return;
+
+    // GL draws from the bottom-left, 2D canvas coordinates start top-left
+    target.drawImage(
+      canvas,
+      0,
+      canvas.height - height,
+      width,
+      height,
+      0,
+      0,
+      width,
+      height
+    );
+  }
+}
+
+export const RendererPool = new RendererPoolClass();
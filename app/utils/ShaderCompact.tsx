@@ -1,218 +1,432 @@
 /**
  * Centralized Shadertoy compatibility layer
- * Simplified approach: Extract defines and mainImage, keep everything else intact
+ * Preprocessor-aware approach: keep user code in its original order (directives,
+ * conditional blocks and macro continuations intact) and append the entry point
+ * glslCanvas, ISF and raw GLSL shaders go through the same pipeline with their own header
  */
 
-export class ShaderCompat {
-  /**
-   * Convert Shadertoy shader to WebGL2-compatible GLSL
-   * Uses simple extraction instead of complex parsing
-   */
-  static convertShadertoy(source: string): string {
-    // Remove any existing #version directive
-    let cleanSource = source.replace(/#version\s+\d+\s+es\s*/gi, '');
-    
-    // EDIT 1: Log source length before define extraction
-    console.log('🔍 Source length before define extraction:', cleanSource.length);
-    
-    // Extract #define statements (must be at top)
-    const defines: string[] = [];
-    cleanSource = cleanSource.replace(/^(#define\s+.+)$/gm, (match) => {
-      defines.push(match);
-      return ''; // Remove from source
-    });
-    
-    // EDIT 2: Log after define extraction
-    console.log('🔍 CleanSource after define extraction:', {
-      length: cleanSource.length,
-      startsWithVoid: cleanSource.trim().includes('void mainImage'),
-      firstChars: cleanSource.trim().substring(0, 200)
-    });
-    
-    // Find and extract mainImage function
-    const mainImageMatch = this.extractMainImage(cleanSource);
-    if (!mainImageMatch) {
-      throw new Error('No mainImage() function found. Ensure your shader contains:\nvoid mainImage(out vec4 fragColor, in vec2 fragCoord) { ... }');
-    }
-    
-    const { mainImageCode, remainingCode } = mainImageMatch;
-    
-    // Clean up the remaining code (remove excessive blank lines)
-    const bodyCode = remainingCode
-      .split('\n')
-      .filter(line => line.trim() !== '' || line.includes('//')) // Keep comments
-      .join('\n')
-      .trim();
-    
-    // Assemble the final shader
-    return `#version 300 es
-precision highp float;
+import { GlslPreprocessor, GlslToken } from "./GlslPreprocessor";
+import { GlslLinter } from "./GlslLinter";
+import { GlslUpgradeChange, GlslUpgrader } from "./GlslUpgrader";
+import { IsfConverter } from "./IsfConverter";
+
+export type ShaderDialect = 'shadertoy' | 'glslcanvas' | 'isf' | 'raw';
 
-// Shadertoy uniforms
+// Default float precision of the wrapped fragment shader
+export type FloatPrecision = 'highp' | 'mediump' | 'lowp';
+
+export const SHADER_DIALECTS: Record<ShaderDialect, string> = {
+  shadertoy: 'Shadertoy (mainImage, iTime, iResolution)',
+  glslcanvas: 'glslCanvas / Book of Shaders (main, u_time, u_resolution)',
+  isf: 'ISF (JSON header, main, TIME, RENDERSIZE)',
+  raw: 'Raw GLSL ES 3.00 (complete shader, compiled as-is)',
+};
+
+// Minimal Image pass used to compile the Common tab in isolation
+const COMMON_PROBE_SOURCES: Record<Exclude<ShaderDialect, 'raw'>, string> = {
+  shadertoy: 'void mainImage(out vec4 fragColor, in vec2 fragCoord) { fragColor = vec4(0.0); }',
+  glslcanvas: 'void main() { gl_FragColor = vec4(0.0); }',
+  isf: 'void main() { gl_FragColor = vec4(0.0); }',
+};
+
+const SHADERTOY_HEADER = `// Shadertoy uniforms
 uniform vec3 iResolution;
 uniform float iTime;
 uniform float iTimeDelta;
 uniform int iFrame;
 uniform vec4 iMouse;
 uniform vec4 iDate;
+uniform sampler2D iChannel0;
+uniform sampler2D iChannel1;
+uniform sampler2D iChannel2;
+uniform sampler2D iChannel3;
+uniform vec3 iChannelResolution[4];
+uniform float iChannelTime[4];`;
 
-out vec4 fragColor;
-
-${defines.length > 0 ? '// User defines\n' + defines.join('\n') + '\n' : ''}
-${bodyCode.length > 0 ? '// User code (globals and functions)\n' + bodyCode + '\n' : ''}
-// User mainImage function
-${mainImageCode}
-
+const SHADERTOY_ENTRY_POINT = `
 // WebGL entry point
 void main() {
   mainImage(fragColor, gl_FragCoord.xy);
 }
 `;
+
+// Uniforms glslCanvas feeds; u_tex0..3 are bound to the channel inputs
+export const GLSLCANVAS_UNIFORMS = [
+  'u_resolution', 'u_time', 'u_delta', 'u_mouse', 'u_date',
+  'u_tex0', 'u_tex1', 'u_tex2', 'u_tex3',
+  'u_tex0Resolution', 'u_tex1Resolution', 'u_tex2Resolution', 'u_tex3Resolution',
+];
+
+const GLSLCANVAS_HEADER = `// glslCanvas uniforms
+uniform vec2 u_resolution;
+uniform float u_time;
+uniform float u_delta;
+uniform vec2 u_mouse;
+uniform vec4 u_date;
+uniform sampler2D u_tex0;
+uniform sampler2D u_tex1;
+uniform sampler2D u_tex2;
+uniform sampler2D u_tex3;
+uniform vec2 u_tex0Resolution;
+uniform vec2 u_tex1Resolution;
+uniform vec2 u_tex2Resolution;
+uniform vec2 u_tex3Resolution;`;
+
+// ISF built-ins on top of the Shadertoy uniforms; PASSINDEX is the pass's position in render order
+// unless an import pins the ISF position with a #define
+const ISF_BUILTINS = ['TIME', 'TIMEDELTA', 'RENDERSIZE', 'FRAMEINDEX', 'PASSINDEX', 'DATE'];
+
+const ISF_HEADER = `// ISF built-ins
+uniform int PASSINDEX;
+#define TIME iTime
+#define TIMEDELTA iTimeDelta
+#define RENDERSIZE iResolution.xy
+#define FRAMEINDEX iFrame
+#define DATE iDate
+#define isf_FragNormCoord (gl_FragCoord.xy / iResolution.xy)
+#define vv_FragNormCoord isf_FragNormCoord
+#define IMG_SIZE(image) vec2(textureSize(image, 0))
+#define IMG_NORM_PIXEL(image, coord) texture(image, coord)
+#define IMG_PIXEL(image, coord) texture(image, (coord) / IMG_SIZE(image))
+#define IMG_THIS_NORM_PIXEL(image) texture(image, isf_FragNormCoord)
+#define IMG_THIS_PIXEL(image) texture(image, isf_FragNormCoord)`;
+
+interface PreparedSource {
+  tokens: GlslToken[];
+  // #extension directives, which GLSL ES only accepts before any code
+  extensions: string[];
+  code: string;
+}
+
+export type ShaderSourceSection = 'common' | 'pass';
+
+export interface ShaderSourceLocation {
+  section: ShaderSourceSection;
+  // 1-based line in the section's original source
+  line: number;
+}
+
+export interface ConvertedShader {
+  code: string;
+  // Indexed by wrapped line - 1; null for injected header/entry point lines
+  sourceMap: (ShaderSourceLocation | null)[];
+  sources: Record<ShaderSourceSection, string>;
+  // Set when the pass was rewritten from GLSL ES 1.0
+  upgradeChanges?: GlslUpgradeChange[];
+}
+
+export interface ShaderDiagnostic {
+  severity: 'error' | 'warning';
+  // null when the driver points at generated code
+  section: ShaderSourceSection | null;
+  line: number;
+  column: number | null;
+  message: string;
+  // Lint rule id for lint warnings
+  rule?: string;
+}
+
+export interface ShaderCompatValidation {
+  valid: boolean;
+  wrappedCode?: string;
+  error?: string;
+  commonError?: string;
+  diagnostics?: ShaderDiagnostic[];
+  warnings?: string[];
+  // GLSL ES 1.0 sources are upgraded before validation
+  upgradedSource?: string;
+  upgradeChanges?: GlslUpgradeChange[];
+}
+
+export class ShaderCompat {
+  /**
+   * Convert a pass written in any dialect to WebGL2 GLSL with a source map
+   * Raw shaders declare their own precision, so it only applies to the other dialects;
+   * without one the default is highp and Shadertoy code may still set its own
+   */
+  static convert(
+    source: string,
+    common?: string,
+    dialect: ShaderDialect = 'shadertoy',
+    precision?: FloatPrecision
+  ): ConvertedShader {
+    switch (dialect) {
+      case 'glslcanvas':
+        return this.convertGlslCanvas(source, common, precision ?? 'highp');
+      case 'isf':
+        return this.convertIsf(source, common, precision ?? 'highp');
+      case 'raw':
+        return this.convertRaw(source);
+      default:
+        return this.convertShadertoyWithSourceMap(source, common, precision);
+    }
   }
 
   /**
-   * Extract mainImage function using brace-matching
-   * Returns the function and the remaining code
+   * Convert Shadertoy shader to WebGL2-compatible GLSL
+   * The optional Common tab source is injected before the user code
    */
-  private static extractMainImage(source: string): { 
-    mainImageCode: string; 
-    remainingCode: string;
-  } | null {
-    // Find the start of mainImage function (flexible pattern)
-    const mainImageRegex = /void\s+mainImage\s*\(\s*out\s+vec4\s+\w+\s*,\s*(?:in\s+)?vec2\s+\w+\s*\)/;
-    const match = source.match(mainImageRegex);
-    
-    // EDIT 3: Log regex match result
-    console.log('🔍 Regex match result:', {
-      matched: !!match,
-      matchedText: match ? match[0] : null,
-      matchIndex: match?.index,
-      sourceLength: source.length,
-      sampleSource: source.substring(0, 500)
+  static convertShadertoy(source: string, common?: string, precision?: FloatPrecision): string {
+    return this.convertShadertoyWithSourceMap(source, common, precision).code;
+  }
+
+  /**
+   * Convert and record where every wrapped line came from
+   * Sections are copied line for line, so each maps to a single offset
+   * A given precision is enforced: the code's own precision statements are blanked
+   */
+  static convertShadertoyWithSourceMap(
+    source: string,
+    common?: string,
+    precision?: FloatPrecision
+  ): ConvertedShader {
+    const enforce = (code: string) => (precision ? GlslUpgrader.stripPrecision(code).source : code);
+    const shared = common?.trim() ? this.prepareSource(enforce(common), 'Common') : null;
+    // Legacy ES 1.0 passes are upgraded in place (line numbers are preserved)
+    const upgrade = GlslUpgrader.isLegacy(source) ? GlslUpgrader.upgrade(source) : null;
+    const pass = this.prepareSource(enforce(upgrade?.source ?? source), 'Image');
+
+    if (!GlslPreprocessor.hasFunctionDefinition(pass.tokens, 'mainImage')) {
+      throw new Error('No mainImage() function found. Ensure your shader contains:\nvoid mainImage(out vec4 fragColor, in vec2 fragCoord) { ... }');
+    }
+
+    return this.assemble(SHADERTOY_HEADER, shared, pass, SHADERTOY_ENTRY_POINT, precision ?? 'highp', {
+      sources: { common: common ?? '', pass: source },
+      upgradeChanges: upgrade?.changes,
     });
-    
-    if (!match || match.index === undefined) {
-      return null;
+  }
+
+  /**
+   * glslCanvas shaders keep their own void main() and u_* uniforms
+   * ES 1.0 built-ins are ported in place and the harness declares the uniforms
+   */
+  private static convertGlslCanvas(source: string, common: string | undefined, precision: FloatPrecision): ConvertedShader {
+    const modernize = (code: string) =>
+      GlslUpgrader.modernize(code, GLSLCANVAS_UNIFORMS, 'u_resolution').source;
+    const shared = common?.trim() ? this.prepareSource(modernize(common), 'Common') : null;
+    const pass = this.prepareSource(modernize(source), 'Image');
+
+    if (!GlslPreprocessor.hasFunctionDefinition(pass.tokens, 'main')) {
+      throw new Error('No main() function found. glslCanvas shaders must contain:\nvoid main() { ... }');
     }
-    
-    const startIndex = match.index;
-    const signatureEndIndex = startIndex + match[0].length;
-    
-    // EDIT 4: Log signature extraction
-    console.log('🔍 Signature extraction:', {
-      startIndex,
-      signatureEndIndex,
-      nextChars: source.substring(signatureEndIndex, signatureEndIndex + 50)
+
+    return this.assemble(GLSLCANVAS_HEADER, shared, pass, '', precision, {
+      sources: { common: common ?? '', pass: source },
     });
-    
-    // Find the opening brace
-    let braceStart = signatureEndIndex;
-    while (braceStart < source.length && source[braceStart] !== '{') {
-      braceStart++;
+  }
+
+  /**
+   * ISF shaders declare their inputs in the JSON header comment; the header
+   * becomes uniforms and texture aliases, and ISF built-ins map onto Shadertoy uniforms
+   */
+  private static convertIsf(source: string, common: string | undefined, precision: FloatPrecision): ConvertedShader {
+    const header = IsfConverter.parseHeader(source) ?? {};
+    const provided = [...ISF_BUILTINS, ...IsfConverter.declaredNames(header)];
+    const modernize = (code: string) => GlslUpgrader.modernize(code, provided, 'iResolution').source;
+    const shared = common?.trim() ? this.prepareSource(modernize(common), 'Common') : null;
+    const pass = this.prepareSource(modernize(source), 'Image');
+
+    if (!GlslPreprocessor.hasFunctionDefinition(pass.tokens, 'main')) {
+      throw new Error('No main() function found. ISF shaders must contain:\nvoid main() { ... }');
     }
-    
-    if (braceStart >= source.length) {
-      return null; // No opening brace found
+
+    return this.assemble(
+      `${SHADERTOY_HEADER}\n\n${ISF_HEADER}\n\n${IsfConverter.uniformDeclarations(header)}`,
+      shared,
+      pass,
+      '',
+      precision,
+      { sources: { common: common ?? '', pass: source } }
+    );
+  }
+
+  /**
+   * Raw shaders are complete programs: no header, no Common code, identity source map
+   */
+  private static convertRaw(source: string): ConvertedShader {
+    return {
+      code: source,
+      sourceMap: source.split('\n').map((_, index) => ({ section: 'pass' as const, line: index + 1 })),
+      sources: { common: '', pass: source },
+    };
+  }
+
+  private static assemble(
+    header: string,
+    shared: PreparedSource | null,
+    pass: PreparedSource,
+    entryPoint: string,
+    precision: FloatPrecision,
+    result: Pick<ConvertedShader, 'sources' | 'upgradeChanges'>
+  ): ConvertedShader {
+    const extensions = [...(shared?.extensions ?? []), ...pass.extensions];
+    const lines: string[] = [];
+    const sourceMap: (ShaderSourceLocation | null)[] = [];
+
+    const emit = (text: string, section?: ShaderSourceSection) => {
+      text.split('\n').forEach((line, index) => {
+        lines.push(line);
+        sourceMap.push(section ? { section, line: index + 1 } : null);
+      });
+    };
+
+    // Assemble the final shader
+    emit(`#version 300 es
+${extensions.length > 0 ? extensions.join('\n') + '\n' : ''}precision ${precision} float;
+
+${header}
+
+out vec4 fragColor;
+`);
+
+    if (shared) {
+      emit('// Common code (shared across passes)');
+      emit(shared.code, 'common');
+      emit('');
     }
-    
-    // Match braces to find the end of the function
-    let braceCount = 0;
-    let pos = braceStart;
-    let inString = false;
-    let inComment = false;
-    let inLineComment = false;
-    
-    while (pos < source.length) {
-      const char = source[pos];
-      const nextChar = pos + 1 < source.length ? source[pos + 1] : '';
-      
-      // Handle line comments
-      if (char === '/' && nextChar === '/' && !inString && !inComment) {
-        inLineComment = true;
-        pos += 2;
-        continue;
-      }
-      
-      if (inLineComment && char === '\n') {
-        inLineComment = false;
-        pos++;
-        continue;
-      }
-      
-      if (inLineComment) {
-        pos++;
-        continue;
-      }
-      
-      // Handle block comments
-      if (char === '/' && nextChar === '*' && !inString && !inLineComment) {
-        inComment = true;
-        pos += 2;
-        continue;
-      }
-      
-      if (inComment && char === '*' && nextChar === '/') {
-        inComment = false;
-        pos += 2;
-        continue;
-      }
-      
-      if (inComment) {
-        pos++;
-        continue;
-      }
-      
-      // Handle strings
-      if (char === '"' && !inComment && !inLineComment) {
-        inString = !inString;
-        pos++;
-        continue;
-      }
-      
-      // Count braces (only if not in string or comment)
-      if (!inString && !inComment && !inLineComment) {
-        if (char === '{') {
-          braceCount++;
-        } else if (char === '}') {
-          braceCount--;
-          
-          // If we've closed all braces, we found the end
-          if (braceCount === 0) {
-            const mainImageCode = source.substring(startIndex, pos + 1);
-            const remainingCode = source.substring(0, startIndex) + source.substring(pos + 1);
-            return { mainImageCode, remainingCode };
-          }
-        }
-      }
-      
-      pos++;
+
+    emit('// User code');
+    emit(pass.code, 'pass');
+    if (entryPoint) emit(entryPoint);
+
+    return { code: lines.join('\n'), sourceMap, ...result };
+  }
+
+  /**
+   * Tokenize a source tab and check its conditional structure
+   * Drops #version and hoists top-level #extension directives, replacing them with
+   * blank lines so every other line keeps its position relative to the rest
+   */
+  private static prepareSource(source: string, label: string): PreparedSource {
+    const tokens = GlslPreprocessor.tokenize(source);
+
+    const { errors } = GlslPreprocessor.conditionalBlocks(tokens);
+    if (errors.length > 0) {
+      throw new Error(
+        errors.map((e) => `${label} line ${e.line}: ${e.message}`).join('\n')
+      );
     }
-    
-    return null; // Unmatched braces
+
+    const extensions: string[] = [];
+    let depth = 0;
+
+    const code = tokens
+      .map((token) => {
+        if (token.type !== 'directive') return token.value;
+
+        const directive = GlslPreprocessor.parseDirective(token);
+        const blank = '\n'.repeat(directive.lineCount - 1);
+
+        switch (directive.name) {
+          case 'if':
+          case 'ifdef':
+          case 'ifndef':
+            depth++;
+            return token.value;
+          case 'endif':
+            depth--;
+            return token.value;
+          case 'version':
+            return blank;
+          case 'extension':
+            // Extensions inside conditional blocks must stay where they are
+            if (depth > 0) return token.value;
+            extensions.push(`#extension ${directive.body}`);
+            return blank;
+          default:
+            return token.value;
+        }
+      })
+      .join('');
+
+    return { tokens, extensions, code };
+  }
+
+  /**
+   * Validate shader with full WebGL context test plus lint warnings
+   * Shadertoy sources written in GLSL ES 1.0 are upgraded first; lint rules in
+   * suppressedRules are skipped
+   */
+  static async validateShader(
+    source: string,
+    common?: string,
+    suppressedRules: string[] = [],
+    dialect: ShaderDialect = 'shadertoy'
+  ): Promise<ShaderCompatValidation> {
+    const upgrade =
+      dialect === 'shadertoy' && GlslUpgrader.isLegacy(source) ? GlslUpgrader.upgrade(source) : null;
+    const pass = upgrade?.source ?? source;
+    const shared = dialect === 'raw' ? undefined : common;
+    const result = await this.compileCheck(pass, shared, dialect);
+
+    // glslCanvas and ISF code is ES 1.0 by design; the harness ports it
+    const suppressed =
+      dialect === 'glslcanvas' || dialect === 'isf' ? [...suppressedRules, 'es1-builtin'] : suppressedRules;
+    const lint: ShaderDiagnostic[] = [
+      ...GlslLinter.lint(shared ?? '', suppressed).map((w) => ({ ...w, section: 'common' as const })),
+      ...GlslLinter.lint(pass, suppressed).map((w) => ({ ...w, section: 'pass' as const })),
+    ].map(({ rule, section, line, column, message }) => ({
+      severity: 'warning',
+      section,
+      line,
+      column,
+      message,
+      rule,
+    }));
+
+    const warnings = [
+      ...(result.warnings ?? []),
+      ...(dialect === 'raw' && common?.trim() ? ['Common code is not injected into raw shaders'] : []),
+      ...(upgrade?.changes ?? []).map((c) => `Upgraded from GLSL ES 1.0, line ${c.line}: ${c.message}`),
+      ...lint.map((d) => `${d.section === 'common' ? 'Common' : 'Image'} line ${d.line}:${d.column} [${d.rule}] ${d.message}`),
+    ];
+    const diagnostics = [...(result.diagnostics ?? []), ...lint];
+
+    return {
+      ...result,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      diagnostics: diagnostics.length > 0 ? diagnostics : undefined,
+      upgradedSource: upgrade?.source,
+      upgradeChanges: upgrade?.changes,
+    };
   }
 
   /**
-   * Validate shader with full WebGL context test
+   * Compile, link and test-draw the wrapped shader in a throwaway context
    */
-  static async validateShader(source: string): Promise<{
-    valid: boolean;
-    wrappedCode?: string;
-    error?: string;
-    warnings?: string[];
-  }> {
+  private static async compileCheck(
+    source: string,
+    common: string | undefined,
+    dialect: ShaderDialect
+  ): Promise<ShaderCompatValidation> {
     try {
       // Check for mainImage before attempting conversion
-      if (!source.includes('mainImage')) {
+      if (dialect === 'shadertoy' && !source.includes('mainImage')) {
         return {
           valid: false,
           error: 'Missing mainImage() function. Shadertoy shaders must include:\n\nvoid mainImage(out vec4 fragColor, in vec2 fragCoord) {\n  // your code\n}'
         };
       }
       
+      // Unbalanced conditionals can be located without compiling anything
+      const preprocessorDiagnostics = [
+        ...this.preprocessorDiagnostics(common ?? '', 'common'),
+        ...this.preprocessorDiagnostics(source, 'pass'),
+      ];
+      if (preprocessorDiagnostics.length > 0) {
+        return {
+          valid: false,
+          error: preprocessorDiagnostics
+            .map((d) => `${d.section === 'common' ? 'Common' : 'Image'} line ${d.line}: ${d.message}`)
+            .join('\n'),
+          diagnostics: preprocessorDiagnostics
+        };
+      }
+
       // Parse and wrap
-      let wrapped: string;
+      let converted: ConvertedShader;
       try {
-        wrapped = this.convertShadertoy(source);
+        converted = this.convert(source, common, dialect);
       } catch (error) {
         return {
           valid: false,
@@ -253,11 +467,35 @@ void main() {
         throw new Error('Internal vertex shader error');
       }
 
+      // Compile the Common tab on its own first so its errors are reported separately
+      if (common?.trim() && dialect !== 'raw') {
+        const commonConverted = this.convert(COMMON_PROBE_SOURCES[dialect], common, dialect);
+        const commonShader = gl.createShader(gl.FRAGMENT_SHADER);
+        if (!commonShader) throw new Error('Failed to create fragment shader');
+
+        gl.shaderSource(commonShader, commonConverted.code);
+        gl.compileShader(commonShader);
+
+        const commonCompiled = gl.getShaderParameter(commonShader, gl.COMPILE_STATUS);
+        const commonLog = gl.getShaderInfoLog(commonShader) || 'Unknown compilation error';
+        gl.deleteShader(commonShader);
+
+        if (!commonCompiled) {
+          gl.deleteShader(vertexShader);
+          return {
+            valid: false,
+            error: 'Common tab failed to compile',
+            commonError: this.formatShaderError(commonLog, commonConverted),
+            diagnostics: this.parseShaderLog(commonLog, commonConverted)
+          };
+        }
+      }
+
       // Compile fragment shader
       const fragmentShader = gl.createShader(gl.FRAGMENT_SHADER);
       if (!fragmentShader) throw new Error('Failed to create fragment shader');
       
-      gl.shaderSource(fragmentShader, wrapped);
+      gl.shaderSource(fragmentShader, converted.code);
       gl.compileShader(fragmentShader);
 
       if (!gl.getShaderParameter(fragmentShader, gl.COMPILE_STATUS)) {
@@ -266,7 +504,8 @@ void main() {
         gl.deleteShader(fragmentShader);
         return {
           valid: false,
-          error: this.formatShaderError(errorLog, wrapped)
+          error: this.formatShaderError(errorLog, converted),
+          diagnostics: this.parseShaderLog(errorLog, converted)
         };
       }
 
@@ -328,7 +567,7 @@ void main() {
 
       return {
         valid: true,
-        wrappedCode: wrapped,
+        wrappedCode: converted.code,
         warnings: warnings.length > 0 ? warnings : undefined
       };
 
@@ -340,41 +579,97 @@ void main() {
     }
   }
 
+  private static preprocessorDiagnostics(source: string, section: ShaderSourceSection): ShaderDiagnostic[] {
+    const { errors } = GlslPreprocessor.conditionalBlocks(GlslPreprocessor.tokenize(source));
+    return errors.map((e) => ({
+      severity: 'error' as const,
+      section,
+      line: e.line,
+      column: 1,
+      message: e.message,
+    }));
+  }
+
   /**
-   * Format shader errors with context
+   * Parse a driver info log into diagnostics located in the user's original source
+   * Understands ANGLE/Chrome ("ERROR: 0:12: 'x' : msg") and Mesa ("0:12(5): error: msg")
    */
-  private static formatShaderError(error: string, wrappedCode: string): string {
-    // Extract line number and message
-    const lineMatch = error.match(/ERROR:\s*\d+:(\d+):\s*(.+)/i);
-    if (!lineMatch) {
-      return error; // Return as-is if we can't parse it
+  static parseShaderLog(log: string, converted: ConvertedShader): ShaderDiagnostic[] {
+    const diagnostics: ShaderDiagnostic[] = [];
+
+    for (const rawLine of log.split('\n')) {
+      const entry = rawLine.trim();
+      const angle = entry.match(/^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/i);
+      const mesa = entry.match(/^\d+:(\d+)\((\d+)\):\s*(error|warning):\s*(.*)$/i);
+      if (!angle && !mesa) continue;
+
+      const severity = (angle ? angle[1] : mesa![3]).toLowerCase() === 'warning' ? 'warning' : 'error';
+      const wrappedLine = parseInt(angle ? angle[2] : mesa![1], 10);
+      const message = (angle ? angle[3] : mesa![4]).trim();
+      const location = converted.sourceMap[wrappedLine - 1] ?? null;
+
+      if (!location) {
+        diagnostics.push({ severity, section: null, line: wrappedLine, column: null, message });
+        continue;
+      }
+
+      const sourceLine = converted.sources[location.section].split('\n')[location.line - 1] ?? '';
+      const column = mesa ? parseInt(mesa[2], 10) : this.findColumn(sourceLine, message);
+
+      diagnostics.push({ severity, section: location.section, line: location.line, column, message });
     }
-    
-    const lineNum = parseInt(lineMatch[1], 10);
-    const message = lineMatch[2].trim();
-    
-    // Get the actual line from wrapped code
-    const lines = wrappedCode.split('\n');
-    const errorLineIndex = lineNum - 1;
-    
-    if (errorLineIndex >= 0 && errorLineIndex < lines.length) {
-      const errorLine = lines[errorLineIndex].trim();
-      
-      // Try to give context
-      const contextStart = Math.max(0, errorLineIndex - 2);
-      const contextEnd = Math.min(lines.length, errorLineIndex + 3);
-      const context = lines
-        .slice(contextStart, contextEnd)
-        .map((line, idx) => {
-          const actualLineNum = contextStart + idx + 1;
-          const marker = actualLineNum === lineNum ? '>>> ' : '    ';
-          return `${marker}${actualLineNum.toString().padStart(4)}: ${line}`;
-        })
-        .join('\n');
-      
-      return `${message}\n\nLine ${lineNum}:\n\n${context}`;
+
+    return diagnostics;
+  }
+
+  /**
+   * ANGLE doesn't report columns; locate the quoted token from the message instead
+   */
+  private static findColumn(sourceLine: string, message: string): number | null {
+    const token = message.match(/'([^']+)'/)?.[1];
+    if (!token) return null;
+
+    const escaped = token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const start = /^\w/.test(token) ? '\\b' : '';
+    const end = /\w$/.test(token) ? '\\b' : '';
+    const index = sourceLine.search(new RegExp(`${start}${escaped}${end}`));
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Format shader errors with context from the original source
+   */
+  static formatShaderError(log: string, converted: ConvertedShader, passLabel = 'Image'): string {
+    const diagnostics = this.parseShaderLog(log, converted);
+    if (diagnostics.length === 0) {
+      return log; // Return as-is if we can't parse it
     }
-    
-    return `Line ${lineNum}: ${message}`;
+
+    return diagnostics
+      .map((diagnostic) => {
+        if (!diagnostic.section) {
+          return `Generated line ${diagnostic.line}: ${diagnostic.message}`;
+        }
+
+        const label = diagnostic.section === 'common' ? 'Common' : passLabel;
+        const position = diagnostic.column ? `${diagnostic.line}:${diagnostic.column}` : `${diagnostic.line}`;
+        const lines = converted.sources[diagnostic.section].split('\n');
+        const errorLineIndex = diagnostic.line - 1;
+
+        // Try to give context
+        const contextStart = Math.max(0, errorLineIndex - 2);
+        const contextEnd = Math.min(lines.length, errorLineIndex + 3);
+        const context = lines
+          .slice(contextStart, contextEnd)
+          .map((line, idx) => {
+            const actualLineNum = contextStart + idx + 1;
+            const marker = actualLineNum === diagnostic.line ? '>>> ' : '    ';
+            return `${marker}${actualLineNum.toString().padStart(4)}: ${line}`;
+          })
+          .join('\n');
+
+        return `${label} line ${position}: ${diagnostic.message}\n\n${context}`;
+      })
+      .join('\n\n');
   }
 }
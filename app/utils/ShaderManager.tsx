@@ -7,8 +7,16 @@
  * - Features: CRUD operations, import/export, validation
  */
 
-import { ShaderDefinition } from "../components/shaders/ShaderViewer";
-import { ShaderCompat } from "./ShaderCompact";
+import {
+  GoldenImage,
+  ShaderBufferPass,
+  ShaderDefinition,
+  ShaderInputValue,
+} from "../components/shaders/ShaderViewer";
+import { ShaderCompat, ShaderDialect, ShaderDiagnostic } from "./ShaderCompact";
+import { GlslUpgradeChange } from "./GlslUpgrader";
+import { ShadertoyImporter } from "./ShadertoyImporter";
+import { IsfConverter } from "./IsfConverter";
 
 export interface StoredShader extends ShaderDefinition {
   id: string;
@@ -16,12 +24,22 @@ export interface StoredShader extends ShaderDefinition {
   created: number;
   modified: number;
   version: number;
+  // Version the cached thumbnailUrl was rendered from (empty if it failed to render)
+  thumbnailVersion?: number;
 }
 
 export interface ShaderValidationResult {
   valid: boolean;
   error?: string;
+  // Compile errors originating in the Common tab
+  commonError?: string;
+  // Compile errors and lint warnings located in the original Image/Common source
+  diagnostics?: ShaderDiagnostic[];
+  // Includes lint warnings as "<Tab> line L:C [rule-id] message"
   warnings?: string[];
+  // Present when a GLSL ES 1.0 shader was upgraded to run
+  upgradedSource?: string;
+  upgradeChanges?: GlslUpgradeChange[];
 }
 
 class ShaderManagerClass {
@@ -91,18 +109,54 @@ class ShaderManagerClass {
 
   /**
    * Validate shader code before saving
+   * Lint warnings for suppressedRules are left out
    */
   async validateShader(
-    fragmentShader: string
+    fragmentShader: string,
+    common?: string,
+    suppressedRules?: string[],
+    dialect?: ShaderDialect
   ): Promise<ShaderValidationResult> {
-    const result = await ShaderCompat.validateShader(fragmentShader);
+    const result = await ShaderCompat.validateShader(
+      fragmentShader,
+      common,
+      suppressedRules,
+      dialect
+    );
     return {
       valid: result.valid,
       error: result.error,
+      commonError: result.commonError,
+      diagnostics: result.diagnostics,
       warnings: result.warnings,
+      upgradedSource: result.upgradedSource,
+      upgradeChanges: result.upgradeChanges,
     };
   }
 
+  /**
+   * Validate every Buffer A–D pass, throwing on the first failure
+   */
+  private async validateBuffers(
+    buffers?: ShaderBufferPass[],
+    common?: string,
+    dialect?: ShaderDialect
+  ): Promise<void> {
+    for (const buffer of buffers ?? []) {
+      const validation = await this.validateShader(
+        buffer.fragmentShader,
+        common,
+        undefined,
+        dialect
+      );
+      if (!validation.valid) {
+        throw new Error(
+          `Buffer ${buffer.id} validation failed: ${validation.error}`
+        );
+      }
+    }
+  }
+
   /**
    * Wrap fragment shader with Shadertoy compatibility
    */
@@ -117,10 +171,16 @@ class ShaderManagerClass {
     shader: Omit<ShaderDefinition, "thumbnailUrl">
   ): Promise<StoredShader> {
     // Validate shader first
-    const validation = await this.validateShader(shader.fragmentShader);
+    const validation = await this.validateShader(
+      shader.fragmentShader,
+      shader.common,
+      undefined,
+      shader.dialect
+    );
     if (!validation.valid) {
       throw new Error(`Shader validation failed: ${validation.error}`);
     }
+    await this.validateBuffers(shader.buffers, shader.common, shader.dialect);
 
     const storedShader: StoredShader = {
       ...shader,
@@ -151,12 +211,28 @@ class ShaderManagerClass {
     id: string,
     updates: Partial<ShaderDefinition>
   ): Promise<StoredShader> {
-    // Validate if shader code is being updated
-    if (updates.fragmentShader) {
-      const validation = await this.validateShader(updates.fragmentShader);
+    // Validate if shader code is being updated; partial updates are checked
+    // together with the stored dialect, Common code and passes
+    if (
+      updates.fragmentShader !== undefined ||
+      updates.common !== undefined ||
+      updates.dialect !== undefined ||
+      updates.buffers !== undefined
+    ) {
+      const stored = await this.getShader(id);
+      if (!stored) throw new Error("Shader not found");
+      const merged = { ...stored, ...updates };
+
+      const validation = await this.validateShader(
+        merged.fragmentShader,
+        merged.common,
+        undefined,
+        merged.dialect
+      );
       if (!validation.valid) {
         throw new Error(`Shader validation failed: ${validation.error}`);
       }
+      await this.validateBuffers(merged.buffers, merged.common, merged.dialect);
     }
 
     if (this.useLocalStorage) {
@@ -203,6 +279,59 @@ class ShaderManagerClass {
     }
   }
 
+  /**
+   * Cache a rendered thumbnail without bumping the shader's version
+   */
+  async setThumbnail(
+    id: string,
+    thumbnailUrl: string,
+    version: number
+  ): Promise<void> {
+    await this.patchShader(id, { thumbnailUrl, thumbnailVersion: version });
+  }
+
+  /**
+   * Store golden images for regression checks without bumping the version
+   */
+  async setGoldenImages(id: string, goldenImages: GoldenImage[]): Promise<void> {
+    await this.patchShader(id, { goldenImages });
+  }
+
+  /**
+   * Save control values without bumping the version or modified date
+   */
+  async setInputValues(
+    id: string,
+    inputValues: Record<string, ShaderInputValue>
+  ): Promise<void> {
+    await this.patchShader(id, { inputValues });
+  }
+
+  /**
+   * Update fields of a stored shader in place, leaving its version as is
+   */
+  private async patchShader(
+    id: string,
+    patch: Partial<StoredShader>
+  ): Promise<void> {
+    if (this.useLocalStorage) {
+      const shaders = this.getLocalStorageShaders();
+      const index = shaders.findIndex((s) => s.id === id);
+      if (index === -1) return;
+
+      shaders[index] = { ...shaders[index], ...patch };
+      localStorage.setItem(this.localStorageKey, JSON.stringify(shaders));
+    } else {
+      await this.indexedDBOperation("readwrite", (store) => {
+        const getRequest = store.get(id);
+        getRequest.onsuccess = () => {
+          const shader = getRequest.result as StoredShader | undefined;
+          if (shader) store.put({ ...shader, ...patch });
+        };
+      });
+    }
+  }
+
   /**
    * Delete shader
    */
@@ -270,7 +399,12 @@ class ShaderManagerClass {
       {
         version: 1,
         exported: Date.now(),
-        shaders: shaders,
+        // Thumbnails are a render cache, regenerated after import
+        shaders: shaders.map((shader) => ({
+          ...shader,
+          thumbnailUrl: undefined,
+          thumbnailVersion: undefined,
+        })),
       },
       null,
       2
@@ -278,16 +412,26 @@ class ShaderManagerClass {
   }
 
   /**
-   * Import shaders from JSON
+   * Import shaders from a file's text
+   * Accepts our own JSON export format, Shadertoy exports and ISF .fs files
    */
   async importShaders(
-    jsonData: string
-  ): Promise<{ imported: number; errors: string[] }> {
+    text: string,
+    fileName = ""
+  ): Promise<{ imported: number; errors: string[]; warnings: string[] }> {
     try {
-      const data = JSON.parse(jsonData);
+      if (IsfConverter.isIsf(text)) {
+        return await this.importIsf(text, fileName);
+      }
+
+      const data = JSON.parse(text);
       const errors: string[] = [];
       let imported = 0;
 
+      if (ShadertoyImporter.isShadertoyExport(data)) {
+        return await this.importShadertoy(data);
+      }
+
       if (!data.shaders || !Array.isArray(data.shaders)) {
         throw new Error("Invalid import format: missing shaders array");
       }
@@ -306,7 +450,17 @@ class ShaderManagerClass {
             author: shader.author,
             description: shader.description,
             fragmentShader: shader.fragmentShader,
+            common: shader.common,
+            channels: shader.channels,
+            buffers: shader.buffers,
             tags: shader.tags,
+            dialect: shader.dialect,
+            inputs: shader.inputs,
+            inputValues: shader.inputValues,
+            thumbnailTime: shader.thumbnailTime,
+            goldenImages: shader.goldenImages,
+            license: shader.license,
+            suppressedLintRules: shader.suppressedLintRules,
           });
           imported++;
         } catch (error) {
@@ -318,7 +472,7 @@ class ShaderManagerClass {
         }
       }
 
-      return { imported, errors };
+      return { imported, errors, warnings: [] };
     } catch (error) {
       throw new Error(
         `Import failed: ${
@@ -328,6 +482,54 @@ class ShaderManagerClass {
     }
   }
 
+  /**
+   * Import a Shadertoy export (one shader or many)
+   * Unsupported inputs are reported as warnings; the rest of the shader still imports
+   */
+  private async importShadertoy(
+    data: unknown
+  ): Promise<{ imported: number; errors: string[]; warnings: string[] }> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let imported = 0;
+
+    for (const source of ShadertoyImporter.shaders(data)) {
+      const name = source.info?.name || source.info?.id || "Untitled Shadertoy";
+
+      try {
+        const result = ShadertoyImporter.convertShader(source);
+        await this.addShader(result.shader);
+        warnings.push(...result.warnings.map((w) => `"${name}" ${w}`));
+        imported++;
+      } catch (error) {
+        errors.push(
+          `Failed to import "${name}": ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+
+    return { imported, errors, warnings };
+  }
+
+  /**
+   * Import a single ISF shader; its file name becomes the shader name
+   */
+  private async importIsf(
+    source: string,
+    fileName: string
+  ): Promise<{ imported: number; errors: string[]; warnings: string[] }> {
+    const result = IsfConverter.importShader(source, fileName);
+    await this.addShader(result.shader);
+
+    return {
+      imported: 1,
+      errors: [],
+      warnings: result.warnings.map((w) => `"${result.shader.name}" ${w}`),
+    };
+  }
+
   /**
    * Clear all user shaders
    */
@@ -0,0 +1,313 @@
+/**
+ * Render loop on a dedicated worker
+ * Owns a canvas transferred with transferControlToOffscreen, runs its own
+ * animation frames and posts metrics back, so React updates and layout on the
+ * main thread stay out of the measured frame times
+ */
+
+import type {
+  ContextEvent,
+  PerformanceMetrics,
+} from "../components/shaders/ShaderCanvas";
+import type {
+  ShaderInput,
+  ShaderInputValue,
+} from "../components/shaders/ShaderViewer";
+import {
+  DEFAULT_DETERMINISTIC_SETTINGS,
+  DeterministicSettings,
+} from "./DeterministicClock";
+import { FrameStats } from "./FrameStats";
+import { StressController, StressMode } from "./StressController";
+import { PlaybackClock, PlaybackSettings } from "./PlaybackClock";
+import {
+  MouseRecorder,
+  MouseTrajectory,
+  PointerAction,
+  ShadertoyMouse,
+} from "./ShadertoyMouse";
+import {
+  ShaderRenderer,
+  ShaderRendererSource,
+  UpscaleFilter,
+} from "./ShaderRenderer";
+
+export interface RenderWorkerInit {
+  type: "init";
+  canvas: OffscreenCanvas;
+  source: ShaderRendererSource;
+  width: number;
+  height: number;
+  renderScale: number;
+  upscaleFilter: UpscaleFilter;
+  inputValues?: Record<string, ShaderInputValue>;
+  deterministic?: DeterministicSettings;
+  stress?: StressMode;
+  playback: PlaybackSettings;
+  mouseReplay?: MouseTrajectory;
+}
+
+export type RenderWorkerRequest =
+  | RenderWorkerInit
+  | { type: "inputs"; values?: Record<string, ShaderInputValue> }
+  | { type: "resize"; width: number; height: number }
+  | { type: "renderScale"; scale: number; filter: UpscaleFilter }
+  | { type: "pointer"; action: PointerAction; x: number; y: number }
+  | { type: "mouseReplay"; trajectory?: MouseTrajectory }
+  | { type: "recordMouse"; recording: boolean }
+  | { type: "stress"; mode?: StressMode }
+  | { type: "playback"; settings: PlaybackSettings }
+  | { type: "seek"; time: number }
+  | { type: "step"; frames: number }
+  | { type: "forceContextLoss"; lost: boolean };
+
+export type RenderWorkerMessage =
+  | { type: "inputsDetected"; inputs: ShaderInput[] }
+  | { type: "metrics"; metrics: PerformanceMetrics }
+  | { type: "context"; event: ContextEvent }
+  | { type: "time"; time: number }
+  | { type: "mouseTrajectory"; trajectory: MouseTrajectory }
+  | { type: "error"; message: string };
+
+// Animation frames are available to workers drawing to an OffscreenCanvas;
+// older engines fall back to a 60 Hz timer
+const requestFrame = (callback: FrameRequestCallback): number =>
+  typeof self.requestAnimationFrame === "function"
+    ? self.requestAnimationFrame(callback)
+    : self.setTimeout(() => callback(performance.now()), 1000 / 60);
+
+const cancelFrame = (handle: number): void =>
+  typeof self.cancelAnimationFrame === "function"
+    ? self.cancelAnimationFrame(handle)
+    : self.clearTimeout(handle);
+
+let settings: RenderWorkerInit | null = null;
+let gl: WebGL2RenderingContext | null = null;
+let loseContext: WEBGL_lose_context | null = null;
+let renderer: ShaderRenderer | null = null;
+let stats = new FrameStats(0);
+let stress: StressController | null = null;
+let animationFrame: number | null = null;
+let lastFrameTime = 0;
+let frameCount = 0;
+const clock = new PlaybackClock();
+const mouse = new ShadertoyMouse();
+let recorder: MouseRecorder | null = null;
+const contextEvents: ContextEvent[] = [];
+
+const post = (message: RenderWorkerMessage) => self.postMessage(message);
+
+/**
+ * Compile on the current context and restart the loop with fresh timings
+ */
+const start = () => {
+  if (!settings || !gl) return;
+
+  try {
+    renderer = new ShaderRenderer(
+      gl,
+      settings.source,
+      settings.width,
+      settings.height
+    );
+  } catch (error) {
+    renderer = null;
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  renderer.setRenderScale(settings.renderScale, settings.upscaleFilter);
+  stress?.reset();
+  renderer.setDrawMultiplier(stress?.multiplier ?? 1);
+  post({ type: "inputsDetected", inputs: renderer.userInputs });
+  stats = new FrameStats(renderer.passNames.length);
+
+  lastFrameTime = performance.now();
+  frameCount = 0;
+  clock.restart();
+  post({ type: "time", time: 0 });
+  animationFrame = requestFrame(render);
+};
+
+const render = (currentTime: number) => {
+  if (!settings || !renderer) return;
+
+  // Collect finished GPU timings of earlier frames, freeing their query slots
+  const gpuPoll = renderer.pollGpuTimes();
+  stats.recordGpuTimes(gpuPoll);
+
+  // Auto stress mode tunes the draw count from the same samples
+  if (stress?.recordFrame(currentTime - lastFrameTime, gpuPoll, renderer.renderedFrames)) {
+    renderer.setDrawMultiplier(stress.multiplier);
+    stats = new FrameStats(renderer.passNames.length, renderer.renderedFrames);
+  }
+
+  let time: number;
+  if (settings.deterministic) {
+    const deterministic = {
+      ...clock.offsetSettings(settings.deterministic),
+      trajectory: settings.mouseReplay ?? settings.deterministic.trajectory,
+    };
+    const frame = clock.nextFrame();
+    renderer.renderFrame(frame, deterministic, settings.inputValues);
+    time = deterministic.startTime + frame * deterministic.timestep;
+  } else {
+    const since = clock.time;
+    const timeDelta = clock.tick(currentTime);
+    time = clock.time + clock.settings.offset;
+    const replay = settings.mouseReplay;
+    const date = new Date();
+    renderer.render({
+      time,
+      timeDelta,
+      frame: frameCount,
+      mouse: replay
+        ? ShadertoyMouse.replay(replay, clock.time, since, settings.width, settings.height)
+        : mouse.frame(),
+      inputs: settings.inputValues,
+      date: [
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds(),
+      ],
+    });
+  }
+
+  frameCount++;
+
+  // Same cadence as the main-thread loop, so both modes are comparable
+  if (frameCount % 10 === 0) {
+    post({
+      type: "metrics",
+      metrics: stats.metrics(currentTime - lastFrameTime, {
+        totalFrames: frameCount,
+        resolution: { width: settings.width, height: settings.height },
+        renderResolution: renderer.renderSize,
+        renderScale: settings.renderScale,
+        passNames: renderer.passNames,
+        renderThread: "worker",
+        gpuTimer: renderer.hasGpuTimer,
+        drawMultiplier: stress?.multiplier,
+        time,
+        contextEvents: contextEvents.length > 0 ? [...contextEvents] : undefined,
+      }),
+    });
+    post({ type: "time", time: clock.time });
+  }
+
+  lastFrameTime = currentTime;
+  animationFrame = requestFrame(render);
+};
+
+const recordContextEvent = (type: ContextEvent["type"]) => {
+  const event = { type, timestamp: Date.now(), frame: frameCount };
+  contextEvents.push(event);
+  post({ type: "context", event });
+};
+
+const init = (request: RenderWorkerInit) => {
+  settings = request;
+  stress = request.stress === undefined ? null : new StressController(request.stress);
+  clock.settings = request.playback;
+  clock.timestep = (request.deterministic ?? DEFAULT_DETERMINISTIC_SETTINGS).timestep;
+  const canvas = request.canvas;
+
+  gl = canvas.getContext("webgl2", {
+    alpha: false,
+    antialias: false,
+    depth: false,
+    stencil: false,
+    powerPreference: "high-performance",
+  });
+  if (!gl) {
+    post({ type: "error", message: "WebGL2 not supported in workers" });
+    return;
+  }
+  loseContext = gl.getExtension("WEBGL_lose_context");
+
+  // Same recovery as the main-thread loop: stop on loss, rebuild on restore
+  canvas.addEventListener("webglcontextlost", (e) => {
+    e.preventDefault();
+    if (animationFrame !== null) cancelFrame(animationFrame);
+    renderer = null;
+    recordContextEvent("lost");
+  });
+  canvas.addEventListener("webglcontextrestored", () => {
+    recordContextEvent("restored");
+    start();
+  });
+
+  start();
+};
+
+self.onmessage = (e: MessageEvent<RenderWorkerRequest>) => {
+  const request = e.data;
+
+  switch (request.type) {
+    case "init":
+      init(request);
+      break;
+    case "inputs":
+      if (settings) settings.inputValues = request.values;
+      break;
+    case "resize":
+      if (!settings) break;
+      settings.width = request.width;
+      settings.height = request.height;
+      settings.canvas.width = request.width;
+      settings.canvas.height = request.height;
+      renderer?.resize(request.width, request.height);
+      break;
+    case "renderScale":
+      if (!settings) break;
+      settings.renderScale = request.scale;
+      settings.upscaleFilter = request.filter;
+      renderer?.setRenderScale(request.scale, request.filter);
+      break;
+    case "stress":
+      stress = request.mode === undefined ? null : new StressController(request.mode);
+      if (renderer) {
+        renderer.setDrawMultiplier(stress?.multiplier ?? 1);
+        stats = new FrameStats(renderer.passNames.length, renderer.renderedFrames);
+      }
+      break;
+    case "playback":
+      clock.settings = request.settings;
+      break;
+    case "seek":
+      clock.seek(request.time);
+      post({ type: "time", time: clock.time });
+      break;
+    case "step":
+      clock.step(request.frames);
+      post({ type: "time", time: clock.time });
+      break;
+    case "pointer":
+      mouse.pointer(request.action, request.x, request.y);
+      recorder?.record(request.action, request.x, request.y, clock.time);
+      break;
+    case "mouseReplay":
+      if (settings) settings.mouseReplay = request.trajectory;
+      break;
+    case "recordMouse":
+      if (request.recording && settings) {
+        recorder = new MouseRecorder(settings.width, settings.height, clock.time);
+      } else if (!request.recording && recorder) {
+        post({ type: "mouseTrajectory", trajectory: recorder.finish(clock.time) });
+        recorder = null;
+      }
+      break;
+    case "forceContextLoss":
+      if (!gl) break;
+      if (request.lost && !gl.isContextLost()) {
+        loseContext?.loseContext();
+      } else if (!request.lost && gl.isContextLost()) {
+        loseContext?.restoreContext();
+      }
+      break;
+  }
+};
@@ -0,0 +1,1115 @@
+/**
+ * Multipass WebGL2 renderer for Shadertoy shaders
+ * Renders Buffer A–D into double-buffered float framebuffers, then the Image pass to the canvas
+ * glslCanvas, ISF and raw shaders use the same passes; each pass is fed whichever uniforms it declares
+ */
+
+import {
+  ShaderBufferId,
+  ShaderBufferPass,
+  ShaderChannelInput,
+  ShaderInput,
+  ShaderInputValue,
+  ShaderSamplerSettings,
+  ShaderTextureInput,
+} from "../components/shaders/ShaderViewer";
+import { FloatPrecision, ShaderCompat, ShaderDialect } from "./ShaderCompact";
+import { DeclaredUniform, UniformAnnotations } from "./UniformAnnotations";
+import { DeterministicClock, DeterministicSettings } from "./DeterministicClock";
+
+export interface ShaderRendererSource {
+  fragmentShader: string;
+  common?: string;
+  channels?: (ShaderChannelInput | null)[];
+  buffers?: ShaderBufferPass[];
+  dialect?: ShaderDialect;
+  // Float precision of every pass, enforced over the code's own precision
+  // statements; highp with those statements kept unless set
+  precision?: FloatPrecision;
+  // Uniform controls, fed their defaults until overridden per frame
+  inputs?: ShaderInput[];
+}
+
+export interface FrameUniforms {
+  time: number;
+  timeDelta: number;
+  frame: number;
+  mouse: [number, number, number, number];
+  date: [number, number, number, number];
+  // Input values by uniform name
+  inputs?: Record<string, ShaderInputValue>;
+}
+
+interface PassUniforms {
+  iResolution: WebGLUniformLocation | null;
+  iTime: WebGLUniformLocation | null;
+  iTimeDelta: WebGLUniformLocation | null;
+  iFrame: WebGLUniformLocation | null;
+  iMouse: WebGLUniformLocation | null;
+  iDate: WebGLUniformLocation | null;
+  iChannel: (WebGLUniformLocation | null)[];
+  iChannelResolution: WebGLUniformLocation | null;
+  iChannelTime: WebGLUniformLocation | null;
+  // glslCanvas names
+  u_resolution: WebGLUniformLocation | null;
+  u_time: WebGLUniformLocation | null;
+  u_delta: WebGLUniformLocation | null;
+  u_mouse: WebGLUniformLocation | null;
+  u_date: WebGLUniformLocation | null;
+  u_tex: (WebGLUniformLocation | null)[];
+  u_texResolution: (WebGLUniformLocation | null)[];
+  // ISF
+  PASSINDEX: WebGLUniformLocation | null;
+}
+
+interface ActiveUniform {
+  location: WebGLUniformLocation;
+  type: number;
+}
+
+interface BufferTarget {
+  textures: [WebGLTexture, WebGLTexture];
+  framebuffers: [WebGLFramebuffer, WebGLFramebuffer];
+  // Index of the texture holding the most recently completed frame
+  readIndex: number;
+}
+
+// Scaled-resolution target of the Image pass, blitted to the canvas
+interface OutputTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+}
+
+export type UpscaleFilter = "nearest" | "linear";
+
+interface LoadedTexture {
+  texture: WebGLTexture;
+  // Zero until the image has been decoded and uploaded
+  width: number;
+  height: number;
+}
+
+interface RenderPass {
+  name: string;
+  program: WebGLProgram;
+  uniforms: PassUniforms;
+  channels: (ShaderChannelInput | null)[];
+  samplers: (WebGLSampler | null)[];
+  // null renders to the default framebuffer (Image pass)
+  output: ShaderBufferId | null;
+  // Every active uniform by name, used to feed input values
+  active: Map<string, ActiveUniform>;
+}
+
+// Timer queries of one frame, one per pass
+interface TimerSlot {
+  queries: WebGLQuery[];
+  // Renderer frame measured, see renderedFrames
+  frame: number;
+  // Queries issued, results not read yet
+  pending: boolean;
+  // A disjoint event came while the queries were in flight; results are dropped
+  disjoint: boolean;
+}
+
+// GPU time of one rendered frame
+export interface GpuFrameSample {
+  // Renderer frame measured, see renderedFrames
+  frame: number;
+  // Milliseconds per pass in render order
+  passTimes: number[];
+}
+
+export interface GpuTimingPoll {
+  samples: GpuFrameSample[];
+  // Frames whose results were thrown away (disjoint events, outliers)
+  discarded: number;
+}
+
+const CHANNEL_COUNT = 4;
+// Frames of timer queries in flight; results usually arrive 1–3 frames late
+const TIMER_RING_SIZE = 4;
+
+// Uniforms the harness feeds itself, so they never get a control
+const HARNESS_UNIFORMS = new Set([
+  "iResolution", "iTime", "iTimeDelta", "iFrame", "iMouse", "iDate",
+  "iChannelResolution", "iChannelTime", "u_resolution", "u_time", "u_delta",
+  "u_mouse", "u_date", "PASSINDEX",
+  ...Array.from({ length: CHANNEL_COUNT }, (_, i) => [
+    `iChannel${i}`, `u_tex${i}`, `u_tex${i}Resolution`,
+  ]).flat(),
+]);
+
+// Shadertoy defaults: buffers are sampled linearly and clamped, images are mipmapped and repeat
+export const DEFAULT_BUFFER_SAMPLER: ShaderSamplerSettings = {
+  filter: "linear",
+  wrap: "clamp",
+  vflip: true,
+};
+
+export const DEFAULT_TEXTURE_SAMPLER: ShaderSamplerSettings = {
+  filter: "mipmap",
+  wrap: "repeat",
+  vflip: true,
+};
+
+/**
+ * Value an input has until its control is changed
+ */
+export const defaultInputValue = (input: ShaderInput): ShaderInputValue => {
+  if (input.default !== undefined) return input.default;
+
+  switch (input.type) {
+    case "bool":
+    case "event":
+      return false;
+    case "color":
+      return [0, 0, 0, 1];
+    case "point2D":
+      return [0, 0];
+    case "long":
+      return input.values?.[0] ?? (typeof input.min === "number" ? input.min : 0);
+    default:
+      return typeof input.min === "number" ? input.min : 0;
+  }
+};
+
+const VERTEX_SHADER_SOURCE = `#version 300 es
+  precision highp float;
+
+  in vec2 position;
+
+  void main() {
+    gl_Position = vec4(position, 0.0, 1.0);
+  }
+`;
+
+export class ShaderRenderer {
+  private gl: WebGL2RenderingContext;
+  private passes: RenderPass[] = [];
+  private targets = new Map<ShaderBufferId, BufferTarget>();
+  private textures = new Map<string, LoadedTexture>();
+  private textureLoads: Promise<void>[] = [];
+  private disposed = false;
+  private vertexShader: WebGLShader | null = null;
+  private quadBuffer: WebGLBuffer | null = null;
+  private timerExt: { TIME_ELAPSED_EXT: number; GPU_DISJOINT_EXT: number } | null;
+  private timerSlots: TimerSlot[] = [];
+  private frameSerial = 0;
+  private bufferFormat: { internalFormat: number; type: number };
+  // Internal render size; the canvas is outputWidth × outputHeight
+  private width: number;
+  private height: number;
+  private outputWidth: number;
+  private outputHeight: number;
+  private renderScale = 1;
+  private upscaleFilter: UpscaleFilter = "linear";
+  // Draws per pass per frame, above 1 in stress mode
+  private drawMultiplier = 1;
+  private output: OutputTarget | null = null;
+  private common?: string;
+  private dialect?: ShaderDialect;
+  private precision?: FloatPrecision;
+  private inputDefaults: Record<string, ShaderInputValue>;
+  private uniformInputs: ShaderInput[] = [];
+  // Last frame drawn by renderFrame, -1 before the first
+  private clockFrame = -1;
+
+  /**
+   * Compile every pass and allocate buffer targets
+   * Throws with the driver log if any pass fails to compile or link
+   */
+  constructor(
+    gl: WebGL2RenderingContext,
+    source: ShaderRendererSource,
+    width: number,
+    height: number
+  ) {
+    this.gl = gl;
+    this.width = width;
+    this.height = height;
+    this.outputWidth = width;
+    this.outputHeight = height;
+    this.common = source.common;
+    this.dialect = source.dialect;
+    this.precision = source.precision;
+    this.inputDefaults = Object.fromEntries(
+      (source.inputs ?? []).map((input) => [input.name, defaultInputValue(input)])
+    );
+    this.timerExt = gl.getExtension("EXT_disjoint_timer_query_webgl2");
+    this.bufferFormat = this.pickBufferFormat();
+
+    try {
+      this.vertexShader = this.compileShader(
+        VERTEX_SHADER_SOURCE,
+        gl.VERTEX_SHADER,
+        "Vertex"
+      );
+
+      for (const buffer of source.buffers ?? []) {
+        this.passes.push(
+          this.createPass(
+            `Buffer ${buffer.id}`,
+            buffer.fragmentShader,
+            buffer.channels,
+            buffer.id
+          )
+        );
+        this.targets.set(buffer.id, this.createTarget());
+      }
+
+      this.passes.push(
+        this.createPass("Image", source.fragmentShader, source.channels, null)
+      );
+
+      if (this.timerExt) {
+        this.timerSlots = Array.from({ length: TIMER_RING_SIZE }, () => ({
+          queries: this.passes.map(() => gl.createQuery()),
+          frame: -1,
+          pending: false,
+          disjoint: false,
+        }));
+      }
+
+      // Annotated defaults apply even where no controls are shown
+      this.uniformInputs = UniformAnnotations.inputs(this.declaredUniforms(), [
+        source.common ?? "",
+        ...(source.buffers ?? []).map((buffer) => buffer.fragmentShader),
+        source.fragmentShader,
+      ]);
+      this.inputDefaults = {
+        ...Object.fromEntries(
+          this.uniformInputs.map((input) => [input.name, defaultInputValue(input)])
+        ),
+        ...this.inputDefaults,
+      };
+
+      // Full-screen quad shared by every pass (position bound to location 0)
+      this.quadBuffer = gl.createBuffer();
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+      gl.bufferData(
+        gl.ARRAY_BUFFER,
+        new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+        gl.STATIC_DRAW
+      );
+      gl.enableVertexAttribArray(0);
+      gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    } catch (error) {
+      this.dispose();
+      throw error;
+    }
+  }
+
+  /**
+   * Names of all passes in render order (Image last)
+   */
+  get passNames(): string[] {
+    return this.passes.map((pass) => pass.name);
+  }
+
+  /**
+   * Resolves once every channel image has been decoded (or failed to load)
+   */
+  whenTexturesLoaded(): Promise<void> {
+    return Promise.all(this.textureLoads).then(() => undefined);
+  }
+
+  /**
+   * Controls for active uniforms the shader declares itself, beyond the
+   * harness uniforms and its declared inputs
+   */
+  get userInputs(): ShaderInput[] {
+    return this.uniformInputs;
+  }
+
+  /**
+   * Size the shader actually renders at, after the render scale
+   */
+  get renderSize(): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+
+  /**
+   * Canvas size; iMouse is given in these pixels
+   */
+  get outputSize(): { width: number; height: number } {
+    return { width: this.outputWidth, height: this.outputHeight };
+  }
+
+  /**
+   * Resize output; buffer contents are cleared like on Shadertoy
+   */
+  resize(width: number, height: number): void {
+    if (width === this.outputWidth && height === this.outputHeight) return;
+
+    this.outputWidth = width;
+    this.outputHeight = height;
+    this.applyRenderScale();
+  }
+
+  /**
+   * Render every pass at scale × the output size and upscale the Image pass
+   * to the canvas; 1 renders straight to the canvas
+   */
+  setRenderScale(scale: number, filter: UpscaleFilter = "linear"): void {
+    this.upscaleFilter = filter;
+    if (scale === this.renderScale || !(scale > 0)) return;
+
+    this.renderScale = scale;
+    this.applyRenderScale();
+  }
+
+  /**
+   * Draw every pass N times per frame with the same inputs and output, so
+   * the image is unchanged and the GPU cost scales by N
+   */
+  setDrawMultiplier(multiplier: number): void {
+    this.drawMultiplier = Math.max(1, Math.round(multiplier));
+  }
+
+  /**
+   * Render one frame: every buffer pass in order, then the Image pass
+   */
+  render(frame: FrameUniforms): void {
+    const gl = this.gl;
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    gl.viewport(0, 0, this.width, this.height);
+
+    // Frames go untimed while every slot still waits for its results
+    const slot = this.timerSlots.find((candidate) => !candidate.pending);
+    if (slot) {
+      slot.frame = this.frameSerial;
+      slot.pending = true;
+      slot.disjoint = false;
+    }
+    this.frameSerial++;
+
+    this.passes.forEach((pass, index) =>
+      this.drawPass(pass, index, frame, slot?.queries[index])
+    );
+
+    this.present();
+  }
+
+  /**
+   * Render exactly frame N of a deterministic clock
+   * Buffers feed back into later frames, so frames since the last call are
+   * rendered in order; going backwards restarts from frame 0. Without buffers
+   * every frame stands alone and is drawn directly
+   */
+  renderFrame(
+    frame: number,
+    settings: DeterministicSettings,
+    inputs?: Record<string, ShaderInputValue>
+  ): void {
+    if (this.targets.size === 0) {
+      this.clockFrame = frame;
+      this.render(
+        DeterministicClock.frameUniforms(settings, frame, inputs, this.outputSize)
+      );
+      return;
+    }
+
+    if (frame < this.clockFrame) {
+      this.resetTargets();
+    }
+
+    // Buffers already hold frame N, only the Image pass has to be redrawn
+    if (frame === this.clockFrame) {
+      const gl = this.gl;
+      const index = this.passes.length - 1;
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+      gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+      gl.viewport(0, 0, this.width, this.height);
+      this.drawPass(
+        this.passes[index],
+        index,
+        DeterministicClock.frameUniforms(settings, frame, inputs, this.outputSize)
+      );
+      this.present();
+      return;
+    }
+
+    while (this.clockFrame < frame) {
+      this.clockFrame++;
+      this.render(
+        DeterministicClock.frameUniforms(settings, this.clockFrame, inputs, this.outputSize)
+      );
+    }
+  }
+
+  /**
+   * RGBA pixels of the last frame drawn to the canvas, bottom row first
+   * Must be called in the same task as the render, before the canvas is composited
+   */
+  readPixels(): Uint8Array {
+    const gl = this.gl;
+    const pixels = new Uint8Array(this.outputWidth * this.outputHeight * 4);
+    gl.readPixels(
+      0,
+      0,
+      this.outputWidth,
+      this.outputHeight,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      pixels
+    );
+    return pixels;
+  }
+
+  /**
+   * Whether GPU timer queries are available
+   */
+  get hasGpuTimer(): boolean {
+    return this.timerExt !== null;
+  }
+
+  /**
+   * Frames rendered by render() so far; GPU samples are tagged with this
+   */
+  get renderedFrames(): number {
+    return this.frameSerial;
+  }
+
+  /**
+   * Read finished GPU timer queries (non-blocking), oldest frame first
+   */
+  pollGpuTimes(): GpuTimingPoll {
+    const gl = this.gl;
+    const pending = this.timerSlots
+      .filter((slot) => slot.pending)
+      .sort((a, b) => a.frame - b.frame);
+
+    if (!this.timerExt || pending.length === 0) {
+      return { samples: [], discarded: 0 };
+    }
+
+    // Queries complete in submission order, so the last pass finishes the frame
+    const available: TimerSlot[] = [];
+    for (const slot of pending) {
+      const last = slot.queries[slot.queries.length - 1];
+      if (!gl.getQueryParameter(last, gl.QUERY_RESULT_AVAILABLE)) break;
+      available.push(slot);
+    }
+
+    // Checked after availability, as the extension requires: a disjoint event
+    // (clock change, GPU reset) invalidates every query issued before it. Slots
+    // still in flight stay reserved until their results arrive
+    if (gl.getParameter(this.timerExt.GPU_DISJOINT_EXT)) {
+      pending.forEach((slot) => (slot.disjoint = true));
+    }
+
+    const samples: GpuFrameSample[] = [];
+    let discarded = 0;
+
+    for (const slot of available) {
+      slot.pending = false;
+      if (slot.disjoint) {
+        discarded++;
+        continue;
+      }
+
+      const passTimes = slot.queries.map(
+        (query) => gl.getQueryParameter(query, gl.QUERY_RESULT) / 1_000_000
+      );
+
+      // Filter extreme outliers
+      if (passTimes.every((time) => time > 0 && time < 1000)) {
+        samples.push({ frame: slot.frame, passTimes });
+      } else {
+        discarded++;
+      }
+    }
+
+    return { samples, discarded };
+  }
+
+  /**
+   * Release every GL object owned by this renderer
+   */
+  dispose(): void {
+    const gl = this.gl;
+
+    for (const pass of this.passes) {
+      gl.deleteProgram(pass.program);
+      for (const sampler of pass.samplers) {
+        if (sampler) gl.deleteSampler(sampler);
+      }
+    }
+    for (const slot of this.timerSlots) {
+      slot.queries.forEach((query) => gl.deleteQuery(query));
+    }
+    for (const target of this.targets.values()) {
+      this.deleteTarget(target);
+    }
+    this.deleteOutput();
+    for (const loaded of this.textures.values()) {
+      gl.deleteTexture(loaded.texture);
+    }
+    if (this.vertexShader) gl.deleteShader(this.vertexShader);
+    if (this.quadBuffer) gl.deleteBuffer(this.quadBuffer);
+
+    this.passes = [];
+    this.timerSlots = [];
+    this.targets.clear();
+    this.textures.clear();
+    this.disposed = true;
+    this.vertexShader = null;
+    this.quadBuffer = null;
+  }
+
+  private drawPass(
+    pass: RenderPass,
+    index: number,
+    frame: FrameUniforms,
+    query?: WebGLQuery
+  ): void {
+    const gl = this.gl;
+    const target = pass.output ? this.targets.get(pass.output) : undefined;
+    const writeIndex = target ? 1 - target.readIndex : 0;
+
+    gl.bindFramebuffer(
+      gl.FRAMEBUFFER,
+      target
+        ? target.framebuffers[writeIndex]
+        : this.output?.framebuffer ?? null
+    );
+    gl.useProgram(pass.program);
+    this.setUniforms(pass, frame);
+    if (pass.uniforms.PASSINDEX) gl.uniform1i(pass.uniforms.PASSINDEX, index);
+    this.bindChannels(pass);
+
+    if (this.timerExt && query) {
+      gl.beginQuery(this.timerExt.TIME_ELAPSED_EXT, query);
+    }
+
+    for (let i = 0; i < this.drawMultiplier; i++) {
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    }
+
+    if (this.timerExt && query) {
+      gl.endQuery(this.timerExt.TIME_ELAPSED_EXT);
+    }
+
+    // Later passes this frame read the freshly written texture
+    if (target) {
+      target.readIndex = writeIndex;
+    }
+  }
+
+  /**
+   * Copy the scaled Image pass output to the canvas
+   */
+  private present(): void {
+    const gl = this.gl;
+
+    if (this.output) {
+      gl.bindFramebuffer(gl.READ_FRAMEBUFFER, this.output.framebuffer);
+      gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, null);
+      gl.blitFramebuffer(
+        0,
+        0,
+        this.width,
+        this.height,
+        0,
+        0,
+        this.outputWidth,
+        this.outputHeight,
+        gl.COLOR_BUFFER_BIT,
+        this.upscaleFilter === "nearest" ? gl.NEAREST : gl.LINEAR
+      );
+      gl.bindFramebuffer(gl.READ_FRAMEBUFFER, null);
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  /**
+   * Recompute the internal size from the output size and scale
+   */
+  private applyRenderScale(): void {
+    this.width = Math.max(1, Math.round(this.outputWidth * this.renderScale));
+    this.height = Math.max(1, Math.round(this.outputHeight * this.renderScale));
+
+    this.deleteOutput();
+    if (this.renderScale !== 1) this.output = this.createOutput();
+    this.resetTargets();
+  }
+
+  private createOutput(): OutputTarget {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    const framebuffer = gl.createFramebuffer();
+    if (!texture || !framebuffer) throw new Error("Failed to create output target");
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA8, this.width, this.height);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      gl.TEXTURE_2D,
+      texture,
+      0
+    );
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    return { texture, framebuffer };
+  }
+
+  private deleteOutput(): void {
+    if (!this.output) return;
+    this.gl.deleteTexture(this.output.texture);
+    this.gl.deleteFramebuffer(this.output.framebuffer);
+    this.output = null;
+  }
+
+  /**
+   * Clear every buffer, as on a restart or resize
+   */
+  private resetTargets(): void {
+    for (const [id, target] of this.targets) {
+      this.deleteTarget(target);
+      this.targets.set(id, this.createTarget());
+    }
+    this.clockFrame = -1;
+  }
+
+  private setUniforms(pass: RenderPass, frame: FrameUniforms): void {
+    const gl = this.gl;
+    const uniforms = pass.uniforms;
+
+    if (uniforms.iResolution) {
+      gl.uniform3f(uniforms.iResolution, this.width, this.height, 1.0);
+    }
+    if (uniforms.iTime) gl.uniform1f(uniforms.iTime, frame.time);
+    if (uniforms.iTimeDelta) gl.uniform1f(uniforms.iTimeDelta, frame.timeDelta);
+    if (uniforms.iFrame) gl.uniform1i(uniforms.iFrame, frame.frame);
+    // Mouse positions are in canvas pixels, shaders expect render pixels
+    const mouse = frame.mouse.map((v, i) =>
+      i % 2 === 0
+        ? (v * this.width) / this.outputWidth
+        : (v * this.height) / this.outputHeight
+    );
+    if (uniforms.iMouse) {
+      gl.uniform4f(uniforms.iMouse, mouse[0], mouse[1], mouse[2], mouse[3]);
+    }
+    if (uniforms.iDate) gl.uniform4f(uniforms.iDate, ...frame.date);
+
+    if (uniforms.u_resolution) {
+      gl.uniform2f(uniforms.u_resolution, this.width, this.height);
+    }
+    if (uniforms.u_time) gl.uniform1f(uniforms.u_time, frame.time);
+    if (uniforms.u_delta) gl.uniform1f(uniforms.u_delta, frame.timeDelta);
+    if (uniforms.u_mouse) {
+      gl.uniform2f(uniforms.u_mouse, mouse[0], mouse[1]);
+    }
+    if (uniforms.u_date) gl.uniform4f(uniforms.u_date, ...frame.date);
+
+    for (const [name, value] of Object.entries({ ...this.inputDefaults, ...frame.inputs })) {
+      const uniform = pass.active.get(name);
+      if (uniform) this.setInputUniform(uniform, value);
+    }
+  }
+
+  /**
+   * Upload an input value according to the uniform's declared type
+   */
+  private setInputUniform(uniform: ActiveUniform, value: ShaderInputValue): void {
+    const gl = this.gl;
+    const values = (Array.isArray(value) ? value : [value]).map(Number);
+
+    switch (uniform.type) {
+      case gl.FLOAT:
+        gl.uniform1f(uniform.location, values[0]);
+        break;
+      case gl.INT:
+      case gl.BOOL:
+        gl.uniform1i(uniform.location, Math.round(values[0]));
+        break;
+      case gl.FLOAT_VEC2:
+        gl.uniform2f(uniform.location, values[0] ?? 0, values[1] ?? 0);
+        break;
+      case gl.FLOAT_VEC3:
+        gl.uniform3f(uniform.location, values[0] ?? 0, values[1] ?? 0, values[2] ?? 0);
+        break;
+      case gl.FLOAT_VEC4:
+        gl.uniform4f(
+          uniform.location,
+          values[0] ?? 0,
+          values[1] ?? 0,
+          values[2] ?? 0,
+          values[3] ?? 1
+        );
+        break;
+    }
+  }
+
+  private bindChannels(pass: RenderPass): void {
+    const gl = this.gl;
+    const resolutions = new Float32Array(CHANNEL_COUNT * 3);
+
+    for (let i = 0; i < CHANNEL_COUNT; i++) {
+      const input = pass.channels[i];
+      let texture: WebGLTexture | null = null;
+
+      if (input?.type === "buffer") {
+        const target = this.targets.get(input.buffer);
+        if (target) {
+          texture = target.textures[target.readIndex];
+          resolutions.set([this.width, this.height, 1], i * 3);
+        }
+      } else if (input?.type === "texture") {
+        const loaded = this.textures.get(this.textureKey(input));
+        if (loaded) {
+          texture = loaded.texture;
+          resolutions.set([loaded.width, loaded.height, 1], i * 3);
+        }
+      }
+
+      gl.activeTexture(gl.TEXTURE0 + i);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.bindSampler(i, pass.samplers[i]);
+
+      // Buffers change every frame, so mipmapped reads need fresh levels
+      if (texture && input?.type === "buffer" && input.sampler?.filter === "mipmap") {
+        gl.generateMipmap(gl.TEXTURE_2D);
+      }
+
+      if (pass.uniforms.iChannel[i]) {
+        gl.uniform1i(pass.uniforms.iChannel[i], i);
+      }
+      if (pass.uniforms.u_tex[i]) {
+        gl.uniform1i(pass.uniforms.u_tex[i], i);
+      }
+      if (pass.uniforms.u_texResolution[i]) {
+        gl.uniform2f(
+          pass.uniforms.u_texResolution[i],
+          resolutions[i * 3],
+          resolutions[i * 3 + 1]
+        );
+      }
+    }
+
+    if (pass.uniforms.iChannelResolution) {
+      gl.uniform3fv(pass.uniforms.iChannelResolution, resolutions);
+    }
+    // Still images and buffers have no playback time
+    if (pass.uniforms.iChannelTime) {
+      gl.uniform1fv(pass.uniforms.iChannelTime, new Float32Array(CHANNEL_COUNT));
+    }
+  }
+
+  private createPass(
+    name: string,
+    fragmentSource: string,
+    channels: (ShaderChannelInput | null)[] | undefined,
+    output: ShaderBufferId | null
+  ): RenderPass {
+    const gl = this.gl;
+    const converted = ShaderCompat.convert(
+      fragmentSource,
+      this.common,
+      this.dialect,
+      this.precision
+    );
+    const fragmentShader = this.compileShader(
+      converted.code,
+      gl.FRAGMENT_SHADER,
+      name,
+      (log) => ShaderCompat.formatShaderError(log, converted, name)
+    );
+
+    const program = gl.createProgram();
+    if (!program) throw new Error("Failed to create program");
+
+    gl.attachShader(program, this.vertexShader!);
+    gl.attachShader(program, fragmentShader);
+    gl.bindAttribLocation(program, 0, "position");
+    gl.linkProgram(program);
+    gl.deleteShader(fragmentShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program) || "Unknown linking error";
+      gl.deleteProgram(program);
+      throw new Error(`${name} linking failed:\n${log}`);
+    }
+
+    return {
+      name,
+      program,
+      uniforms: {
+        iResolution: gl.getUniformLocation(program, "iResolution"),
+        iTime: gl.getUniformLocation(program, "iTime"),
+        iTimeDelta: gl.getUniformLocation(program, "iTimeDelta"),
+        iFrame: gl.getUniformLocation(program, "iFrame"),
+        iMouse: gl.getUniformLocation(program, "iMouse"),
+        iDate: gl.getUniformLocation(program, "iDate"),
+        iChannel: Array.from({ length: CHANNEL_COUNT }, (_, i) =>
+          gl.getUniformLocation(program, `iChannel${i}`)
+        ),
+        iChannelResolution: gl.getUniformLocation(program, "iChannelResolution"),
+        iChannelTime: gl.getUniformLocation(program, "iChannelTime"),
+        u_resolution: gl.getUniformLocation(program, "u_resolution"),
+        u_time: gl.getUniformLocation(program, "u_time"),
+        u_delta: gl.getUniformLocation(program, "u_delta"),
+        u_mouse: gl.getUniformLocation(program, "u_mouse"),
+        u_date: gl.getUniformLocation(program, "u_date"),
+        u_tex: Array.from({ length: CHANNEL_COUNT }, (_, i) =>
+          gl.getUniformLocation(program, `u_tex${i}`)
+        ),
+        u_texResolution: Array.from({ length: CHANNEL_COUNT }, (_, i) =>
+          gl.getUniformLocation(program, `u_tex${i}Resolution`)
+        ),
+        PASSINDEX: gl.getUniformLocation(program, "PASSINDEX"),
+      },
+      channels: channels ?? [],
+      samplers: Array.from({ length: CHANNEL_COUNT }, (_, i) =>
+        this.createSampler(channels?.[i] ?? null)
+      ),
+      output,
+      active: this.activeUniforms(program),
+    };
+  }
+
+  private activeUniforms(program: WebGLProgram): Map<string, ActiveUniform> {
+    const gl = this.gl;
+    const active = new Map<string, ActiveUniform>();
+    const count = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS) as number;
+
+    for (let i = 0; i < count; i++) {
+      const info = gl.getActiveUniform(program, i);
+      if (!info) continue;
+
+      const location = gl.getUniformLocation(program, info.name);
+      if (location) active.set(info.name, { location, type: info.type });
+    }
+
+    return active;
+  }
+
+  /**
+   * Scalar and vector uniforms active in any pass that nothing else feeds
+   */
+  private declaredUniforms(): DeclaredUniform[] {
+    const gl = this.gl;
+    const typeNames = new Map<number, string>([
+      [gl.FLOAT, "float"],
+      [gl.INT, "int"],
+      [gl.BOOL, "bool"],
+      [gl.FLOAT_VEC2, "vec2"],
+      [gl.FLOAT_VEC3, "vec3"],
+      [gl.FLOAT_VEC4, "vec4"],
+    ]);
+    const declared = new Map<string, DeclaredUniform>();
+
+    for (const pass of this.passes) {
+      for (const [name, uniform] of pass.active) {
+        const type = typeNames.get(uniform.type);
+        // Arrays are reported as "name[0]" and aren't controllable
+        if (!type || name.includes("[") || HARNESS_UNIFORMS.has(name)) continue;
+        if (name in this.inputDefaults || declared.has(name)) continue;
+        declared.set(name, { name, type });
+      }
+    }
+
+    return Array.from(declared.values());
+  }
+
+  /**
+   * Sampler object carrying the channel's filter and wrap settings,
+   * so one buffer texture can be read with different settings per pass
+   */
+  private createSampler(input: ShaderChannelInput | null): WebGLSampler | null {
+    if (!input) return null;
+
+    const gl = this.gl;
+    const settings =
+      input.sampler ??
+      (input.type === "texture" ? DEFAULT_TEXTURE_SAMPLER : DEFAULT_BUFFER_SAMPLER);
+    const sampler = gl.createSampler();
+    if (!sampler) return null;
+
+    if (input.type === "texture") {
+      this.loadTexture(input);
+    }
+
+    const minFilter = {
+      nearest: gl.NEAREST,
+      linear: gl.LINEAR,
+      mipmap: gl.LINEAR_MIPMAP_LINEAR,
+    }[settings.filter];
+    const wrap = settings.wrap === "repeat" ? gl.REPEAT : gl.CLAMP_TO_EDGE;
+
+    gl.samplerParameteri(sampler, gl.TEXTURE_MIN_FILTER, minFilter);
+    gl.samplerParameteri(
+      sampler,
+      gl.TEXTURE_MAG_FILTER,
+      settings.filter === "nearest" ? gl.NEAREST : gl.LINEAR
+    );
+    gl.samplerParameteri(sampler, gl.TEXTURE_WRAP_S, wrap);
+    gl.samplerParameteri(sampler, gl.TEXTURE_WRAP_T, wrap);
+
+    return sampler;
+  }
+
+  /**
+   * vflip is applied while decoding, so flipped and unflipped uses of the
+   * same image need separate textures
+   */
+  private textureKey(input: ShaderTextureInput): string {
+    const vflip = (input.sampler ?? DEFAULT_TEXTURE_SAMPLER).vflip;
+    return `${vflip ? "flip" : "noflip"}:${input.dataUrl}`;
+  }
+
+  /**
+   * Decode and upload an image channel asynchronously
+   * The channel samples black until the upload completes
+   */
+  private loadTexture(input: ShaderTextureInput): void {
+    const key = this.textureKey(input);
+    if (this.textures.has(key)) return;
+
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) return;
+
+    const loaded: LoadedTexture = { texture, width: 0, height: 0 };
+    this.textures.set(key, loaded);
+
+    const vflip = (input.sampler ?? DEFAULT_TEXTURE_SAMPLER).vflip;
+
+    const load = fetch(input.dataUrl)
+      .then((response) => response.blob())
+      .then((blob) =>
+        createImageBitmap(blob, {
+          imageOrientation: vflip ? "flipY" : "from-image",
+        })
+      )
+      .then((bitmap) => {
+        if (this.disposed) {
+          bitmap.close();
+          return;
+        }
+
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texImage2D(
+          gl.TEXTURE_2D,
+          0,
+          gl.RGBA,
+          gl.RGBA,
+          gl.UNSIGNED_BYTE,
+          bitmap
+        );
+        gl.generateMipmap(gl.TEXTURE_2D);
+        gl.bindTexture(gl.TEXTURE_2D, null);
+
+        loaded.width = bitmap.width;
+        loaded.height = bitmap.height;
+        bitmap.close();
+      })
+      .catch((error) => {
+        console.error(`Failed to load texture "${input.name}":`, error);
+      });
+    this.textureLoads.push(load);
+  }
+
+  private compileShader(
+    source: string,
+    type: number,
+    label: string,
+    formatLog: (log: string) => string = (log) => log
+  ): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error(`Failed to create ${label} shader`);
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader) || "Unknown compilation error";
+      gl.deleteShader(shader);
+      throw new Error(`${label} compilation failed:\n${formatLog(log)}`);
+    }
+
+    return shader;
+  }
+
+  /**
+   * Prefer RGBA32F like Shadertoy; fall back to RGBA16F when float32 can't be
+   * filtered, and to RGBA8 when float color attachments aren't supported
+   */
+  private pickBufferFormat(): { internalFormat: number; type: number } {
+    const gl = this.gl;
+
+    if (!gl.getExtension("EXT_color_buffer_float")) {
+      return { internalFormat: gl.RGBA8, type: gl.UNSIGNED_BYTE };
+    }
+    if (gl.getExtension("OES_texture_float_linear")) {
+      return { internalFormat: gl.RGBA32F, type: gl.FLOAT };
+    }
+    return { internalFormat: gl.RGBA16F, type: gl.HALF_FLOAT };
+  }
+
+  private createTarget(): BufferTarget {
+    const gl = this.gl;
+    const textures: WebGLTexture[] = [];
+    const framebuffers: WebGLFramebuffer[] = [];
+
+    for (let i = 0; i < 2; i++) {
+      const texture = gl.createTexture();
+      const framebuffer = gl.createFramebuffer();
+      if (!texture || !framebuffer) throw new Error("Failed to create buffer target");
+
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        this.bufferFormat.internalFormat,
+        this.width,
+        this.height,
+        0,
+        gl.RGBA,
+        this.bufferFormat.type,
+        null
+      );
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(
+        gl.FRAMEBUFFER,
+        gl.COLOR_ATTACHMENT0,
+        gl.TEXTURE_2D,
+        texture,
+        0
+      );
+
+      textures.push(texture);
+      framebuffers.push(framebuffer);
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    return {
+      textures: [textures[0], textures[1]],
+      framebuffers: [framebuffers[0], framebuffers[1]],
+      readIndex: 0,
+    };
+  }
+
+  private deleteTarget(target: BufferTarget): void {
+    for (const texture of target.textures) this.gl.deleteTexture(texture);
+    for (const framebuffer of target.framebuffers) {
+      this.gl.deleteFramebuffer(framebuffer);
+    }
+  }
+}
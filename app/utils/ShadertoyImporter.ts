@@ -0,0 +1,266 @@
+/**
+ * Shadertoy export importer
+ * Maps the JSON produced by Shadertoy (`info` + `renderpass[]`, as returned by
+ * the site export and the v1 API) to our ShaderDefinition records
+ */
+
+import {
+  ShaderBufferId,
+  ShaderBufferPass,
+  ShaderChannelInput,
+  ShaderDefinition,
+  ShaderSamplerSettings,
+} from "../components/shaders/ShaderViewer";
+import { GlslPreprocessor } from "./GlslPreprocessor";
+
+interface ShadertoySampler {
+  filter?: string;
+  wrap?: string;
+  vflip?: string | boolean;
+}
+
+interface ShadertoyInput {
+  id?: string | number;
+  src?: string;
+  filepath?: string;
+  ctype?: string;
+  type?: string;
+  channel?: number;
+  sampler?: ShadertoySampler;
+}
+
+interface ShadertoyRenderPass {
+  name?: string;
+  type?: string;
+  code?: string;
+  inputs?: ShadertoyInput[];
+  outputs?: { id?: string | number; channel?: number }[];
+}
+
+export interface ShadertoyShader {
+  info?: {
+    id?: string;
+    name?: string;
+    username?: string;
+    description?: string;
+    tags?: string[];
+    license?: string;
+  };
+  renderpass?: ShadertoyRenderPass[];
+}
+
+interface ImportedPass {
+  fragmentShader: string;
+  channels?: (ShaderChannelInput | null)[];
+}
+
+export interface ShadertoyImport {
+  shader: Omit<ShaderDefinition, "thumbnailUrl">;
+  // Inputs and passes that were dropped because we can't render them
+  warnings: string[];
+}
+
+// Shadertoy's terms when a shader doesn't state its own license
+export const SHADERTOY_DEFAULT_LICENSE =
+  "CC BY-NC-SA 3.0 (Shadertoy default)";
+
+// Output ids Shadertoy assigns to Buffer A–D (newer string ids and legacy numeric ids)
+const BUFFER_OUTPUT_IDS: Record<string, ShaderBufferId> = {
+  "4dXGR8": "A",
+  XsXGR8: "B",
+  "4sXGR8": "C",
+  XdfGR8: "D",
+  "257": "A",
+  "258": "B",
+  "259": "C",
+  "260": "D",
+};
+
+const BUFFER_IDS: ShaderBufferId[] = ["A", "B", "C", "D"];
+
+export class ShadertoyImporter {
+  /**
+   * Whether parsed JSON looks like a Shadertoy export rather than our own format
+   */
+  static isShadertoyExport(data: unknown): boolean {
+    return this.shaders(data).length > 0;
+  }
+
+  /**
+   * Find every shader in a Shadertoy export
+   * Accepts a single shader, `{ Shader }` API responses and arrays of either
+   */
+  static shaders(data: unknown): ShadertoyShader[] {
+    if (Array.isArray(data)) {
+      return data.flatMap((entry) => this.shaders(entry));
+    }
+    if (!data || typeof data !== "object") return [];
+
+    const record = data as Record<string, unknown>;
+    if (record.Shader) return this.shaders(record.Shader);
+    if (Array.isArray(record.Results)) return this.shaders(record.Results);
+    if (Array.isArray(record.renderpass)) return [record as ShadertoyShader];
+
+    return [];
+  }
+
+  /**
+   * Map one Shadertoy shader to a ShaderDefinition, throwing if it has no Image pass
+   */
+  static convertShader(source: ShadertoyShader): ShadertoyImport {
+    const info = source.info ?? {};
+    const name = info.name?.trim() || info.id || "Untitled Shadertoy";
+    const warnings: string[] = [];
+    const passes = source.renderpass ?? [];
+
+    let image: ImportedPass | null = null;
+    let common: string | undefined;
+    const buffers: ShaderBufferPass[] = [];
+
+    for (const pass of passes) {
+      const label = pass.name || pass.type || "pass";
+
+      switch (pass.type) {
+        case "image":
+          image = this.convertPass(pass, label, warnings);
+          break;
+        case "common":
+          common = pass.code;
+          break;
+        case "buffer": {
+          const id = this.bufferOutput(pass);
+          if (!id) {
+            warnings.push(`${label}: unknown buffer output, pass skipped`);
+            break;
+          }
+          const converted = this.convertPass(pass, label, warnings);
+          buffers.push({ id, ...converted });
+          break;
+        }
+        default:
+          warnings.push(`${label}: ${pass.type ?? "unknown"} passes are not supported, pass skipped`);
+      }
+    }
+
+    if (!image) {
+      throw new Error(`"${name}" has no Image pass`);
+    }
+
+    // Shadertoy always runs Buffer A–D in letter order
+    buffers.sort((a, b) => BUFFER_IDS.indexOf(a.id) - BUFFER_IDS.indexOf(b.id));
+
+    return {
+      shader: {
+        name,
+        author: info.username || undefined,
+        description: info.description || undefined,
+        fragmentShader: image.fragmentShader,
+        common: common?.trim() ? common : undefined,
+        channels: image.channels,
+        buffers: buffers.length > 0 ? buffers : undefined,
+        tags: info.tags ?? [],
+        license: info.license || this.detectLicense(passes),
+      },
+      warnings,
+    };
+  }
+
+  private static convertPass(
+    pass: ShadertoyRenderPass,
+    label: string,
+    warnings: string[]
+  ): ImportedPass {
+    const channels: (ShaderChannelInput | null)[] = [];
+
+    for (const input of pass.inputs ?? []) {
+      const channel = input.channel ?? 0;
+      const converted = this.convertInput(input);
+
+      if (typeof converted === "string") {
+        warnings.push(`${label} iChannel${channel}: ${converted}`);
+        continue;
+      }
+      channels[channel] = converted;
+    }
+
+    return {
+      fragmentShader: pass.code ?? "",
+      channels: channels.length > 0
+        ? Array.from(channels, (input) => input ?? null)
+        : undefined,
+    };
+  }
+
+  /**
+   * Returns the channel input, or a warning message when it can't be imported
+   */
+  private static convertInput(input: ShadertoyInput): ShaderChannelInput | string {
+    const type = input.ctype ?? input.type ?? "unknown";
+    const src = input.src ?? input.filepath ?? "";
+    const sampler = this.convertSampler(input.sampler);
+
+    switch (type) {
+      case "buffer": {
+        const buffer =
+          BUFFER_OUTPUT_IDS[String(input.id)] ??
+          BUFFER_IDS[Number(src.match(/buffer0(\d)/)?.[1] ?? -1)];
+        if (!buffer) return `unknown buffer input "${input.id}" skipped`;
+        return { type: "buffer", buffer, sampler };
+      }
+      case "texture":
+        // Offline exports only reference Shadertoy's media files; inline images carry over
+        if (src.startsWith("data:")) {
+          return { type: "texture", name: "texture", dataUrl: src, sampler };
+        }
+        return `texture "${src}" is not embedded in the export, bind it again in the channel editor`;
+      default:
+        return `${type} inputs are not supported, input skipped`;
+    }
+  }
+
+  private static convertSampler(sampler?: ShadertoySampler): ShaderSamplerSettings | undefined {
+    if (!sampler) return undefined;
+
+    return {
+      filter:
+        sampler.filter === "nearest" || sampler.filter === "mipmap"
+          ? sampler.filter
+          : "linear",
+      wrap: sampler.wrap === "repeat" ? "repeat" : "clamp",
+      vflip: sampler.vflip === true || sampler.vflip === "true",
+    };
+  }
+
+  private static bufferOutput(pass: ShadertoyRenderPass): ShaderBufferId | null {
+    for (const output of pass.outputs ?? []) {
+      const id = BUFFER_OUTPUT_IDS[String(output.id)];
+      if (id) return id;
+    }
+
+    // Older exports only name the pass ("Buf A" / "Buffer A")
+    const letter = pass.name?.match(/^buf(?:fer)?\s*([A-D])$/i)?.[1];
+    return letter ? (letter.toUpperCase() as ShaderBufferId) : null;
+  }
+
+  /**
+   * Shadertoy has no license field; authors state it in a comment, usually at the top
+   */
+  private static detectLicense(passes: ShadertoyRenderPass[]): string {
+    for (const pass of passes) {
+      const tokens = GlslPreprocessor.tokenize(pass.code ?? "");
+
+      for (const token of tokens) {
+        if (token.type !== "comment") continue;
+
+        const line = token.value
+          .split("\n")
+          .find((text) => /licen[sc]e/i.test(text));
+        if (line) {
+          return line.replace(/^\s*(\/\/+|\/\*+|\*+)\s*/, "").replace(/\*\/\s*$/, "").trim();
+        }
+      }
+    }
+
+    return SHADERTOY_DEFAULT_LICENSE;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Shadertoy iMouse semantics, pointer recording and replay
+ * iMouse.xy is the pointer while the button is held (kept on release),
+ * iMouse.zw the last click; z is negated once the button is released and
+ * w is positive only on the first frame after the click
+ */
+
+export type PointerAction = "down" | "move" | "up";
+
+export interface PointerSample {
+  // Timeline seconds since the recording started
+  time: number;
+  action: PointerAction;
+  // Canvas pixels, y up
+  x: number;
+  y: number;
+}
+
+// Recorded pointer input, replayed against the playback timeline
+export interface MouseTrajectory {
+  // Canvas size while recording; replays scale to the current size
+  width: number;
+  height: number;
+  // Length in seconds; replays loop over it
+  duration: number;
+  samples: PointerSample[];
+}
+
+export type MouseUniform = [number, number, number, number];
+
+export class ShadertoyMouse {
+  private position: [number, number] = [0, 0];
+  private click: [number, number] = [0, 0];
+  private down = false;
+  // Set by a click, cleared by the frame that reports it
+  private clicked = false;
+
+  /**
+   * Apply a pointer event; moves only count while the button is held
+   */
+  pointer(action: PointerAction, x: number, y: number): void {
+    switch (action) {
+      case "down":
+        this.position = [x, y];
+        this.click = [x, y];
+        this.down = true;
+        this.clicked = true;
+        break;
+      case "move":
+        if (this.down) this.position = [x, y];
+        break;
+      case "up":
+        this.down = false;
+        break;
+    }
+  }
+
+  /**
+   * iMouse for the frame about to render; consumes the click flag
+   */
+  frame(): MouseUniform {
+    const uniform = this.peek();
+    this.clicked = false;
+    return uniform;
+  }
+
+  /**
+   * iMouse without consuming the click flag
+   */
+  peek(): MouseUniform {
+    const [x, y] = this.position;
+    const [clickX, clickY] = this.click;
+    return [
+      x,
+      y,
+      this.down ? Math.abs(clickX) : -Math.abs(clickX),
+      this.clicked ? Math.abs(clickY) : -Math.abs(clickY),
+    ];
+  }
+
+  reset(): void {
+    this.position = [0, 0];
+    this.click = [0, 0];
+    this.down = false;
+    this.clicked = false;
+  }
+
+  /**
+   * iMouse of a recorded trajectory at a timeline position
+   * since is the position of the previous frame: samples from since up to
+   * (not including) time land in this frame, so a click shows up as w > 0 in
+   * exactly one frame, whatever the frame rate
+   */
+  static replay(
+    trajectory: MouseTrajectory,
+    time: number,
+    since: number,
+    width: number,
+    height: number
+  ): MouseUniform {
+    const { duration } = trajectory;
+    let at = time;
+    let from = since;
+    if (duration > 0) {
+      at = time % duration;
+      from = since % duration;
+      // The loop wrapped since the previous frame: start over
+      if (from > at) from = -Infinity;
+    }
+
+    const mouse = new ShadertoyMouse();
+    let clicked = false;
+    for (const sample of trajectory.samples) {
+      if (sample.time >= at) break;
+      mouse.pointer(sample.action, sample.x, sample.y);
+      if (sample.action === "down") clicked = sample.time >= from;
+    }
+    mouse.clicked = clicked;
+
+    const scaleX = width / trajectory.width;
+    const scaleY = height / trajectory.height;
+    const [x, y, z, w] = mouse.peek();
+    return [x * scaleX, y * scaleY, z * scaleX, w * scaleY];
+  }
+}
+
+export class MouseRecorder {
+  private readonly width: number;
+  private readonly height: number;
+  private readonly start: number;
+  private samples: PointerSample[] = [];
+
+  /**
+   * Start recording at a timeline position, on a canvas of this size
+   */
+  constructor(width: number, height: number, start: number) {
+    this.width = width;
+    this.height = height;
+    this.start = start;
+  }
+
+  record(action: PointerAction, x: number, y: number, time: number): void {
+    this.samples.push({ time: Math.max(0, time - this.start), action, x, y });
+  }
+
+  /**
+   * The recording so far, lasting until the given timeline position
+   */
+  finish(time: number): MouseTrajectory {
+    return {
+      width: this.width,
+      height: this.height,
+      duration: Math.max(0, time - this.start),
+      samples: [...this.samples],
+    };
+  }
+}
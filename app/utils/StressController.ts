@@ -0,0 +1,116 @@
+/**
+ * Draw multiplier for stress mode
+ * requestAnimationFrame caps light shaders at the refresh rate, so every pass
+ * is drawn N times per frame until the cost shows up in the measurements;
+ * dividing by N gives a per-draw cost that still ranks shaders below the cap
+ */
+
+// Draws per frame, or "auto" to raise it until the frame budget is hit
+export type StressMode = number | "auto";
+
+import type { GpuTimingPoll } from "./ShaderRenderer";
+
+const MAX_MULTIPLIER = 1024;
+// Frames per adjustment in auto mode
+const WINDOW = 30;
+// Auto mode aims a little under the budget to leave room for jitter
+const BUDGET_FILL = 0.9;
+
+export class StressController {
+  readonly mode: StressMode;
+  private current: number;
+  // Frame budget in ms, measured over the first window at one draw
+  private budget: number | null = null;
+  private frameTimes: number[] = [];
+  private gpuTimes: number[] = [];
+  // Without GPU timers auto mode stops at the first over-budget window
+  private settled = false;
+  // Renderer frame of the last change; GPU samples of earlier frames are stale
+  private changedAt = 0;
+
+  constructor(mode: StressMode) {
+    this.mode = mode;
+    this.current = this.initial();
+  }
+
+  /**
+   * Start over, e.g. for a newly compiled shader
+   */
+  reset(): void {
+    this.current = this.initial();
+    this.budget = null;
+    this.frameTimes = [];
+    this.gpuTimes = [];
+    this.settled = false;
+    this.changedAt = 0;
+  }
+
+  /**
+   * Draws per frame to render now
+   */
+  get multiplier(): number {
+    return this.current;
+  }
+
+  /**
+   * Feed one frame interval and the pollGpuTimes result of the same frame;
+   * renderedFrames is the renderer's frame count at that point
+   * Returns true when the multiplier changed; samples taken at the old
+   * multiplier no longer describe the new one
+   */
+  recordFrame(
+    frameTime: number,
+    gpu: GpuTimingPoll,
+    renderedFrames: number
+  ): boolean {
+    if (this.mode !== "auto" || this.settled) return false;
+
+    this.frameTimes.push(frameTime);
+    for (const sample of gpu.samples) {
+      if (sample.frame < this.changedAt) continue;
+      this.gpuTimes.push(sample.passTimes.reduce((sum, time) => sum + time, 0));
+    }
+    if (this.frameTimes.length < WINDOW) return false;
+
+    const frameMedian = this.median(this.frameTimes);
+    const gpuMedian =
+      this.gpuTimes.length > WINDOW / 2 ? this.median(this.gpuTimes) : null;
+    this.frameTimes = [];
+    this.gpuTimes = [];
+
+    if (this.budget === null) {
+      this.budget = frameMedian;
+    }
+
+    const previous = this.current;
+
+    if (gpuMedian !== null && gpuMedian > 0) {
+      // GPU time scales with the draw count: aim for the budget, at most doubling
+      const target = Math.floor(
+        (this.current * this.budget * BUDGET_FILL) / gpuMedian
+      );
+      this.current = Math.min(Math.max(1, target), this.current * 2, MAX_MULTIPLIER);
+    } else if (frameMedian <= this.budget * 1.2) {
+      this.current = Math.min(this.current * 2, MAX_MULTIPLIER);
+    } else {
+      // Frames started missing vsync: back off one step and hold
+      this.current = Math.max(1, Math.floor(this.current / 2));
+      this.settled = true;
+    }
+
+    if (this.current === previous) return false;
+    this.changedAt = renderedFrames;
+    return true;
+  }
+
+  private initial(): number {
+    return this.mode === "auto"
+      ? 1
+      : Math.min(Math.max(1, Math.round(this.mode)), MAX_MULTIPLIER);
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Controls for uniforms a shader declares but the harness doesn't feed
+ * Types come from the linked program; ranges and defaults from comments like
+ *   uniform float uSpeed; // @range 0 10 default 1
+ */
+
+import { ShaderInput } from "../components/shaders/ShaderViewer";
+
+// Uniform reported by getActiveUniform, with its GLSL type name
+export interface DeclaredUniform {
+  name: string;
+  type: string;
+}
+
+export interface UniformAnnotation {
+  min?: number;
+  max?: number;
+  default?: number[];
+  label?: string;
+}
+
+const DECLARATION =
+  /^\s*uniform\s+(?:(?:lowp|mediump|highp)\s+)?\w+\s+([^;]+);\s*(?:\/\/(.*))?$/;
+
+export class UniformAnnotations {
+  /**
+   * Annotations by uniform name, read from the trailing comment of the
+   * declaration or from a comment on the line above
+   */
+  static parse(sources: string[]): Map<string, UniformAnnotation> {
+    const annotations = new Map<string, UniformAnnotation>();
+
+    for (const source of sources) {
+      const lines = source.split("\n");
+      lines.forEach((line, index) => {
+        const match = DECLARATION.exec(line);
+        if (!match) return;
+
+        const above = /^\s*\/\/(.*)$/.exec(lines[index - 1] ?? "");
+        const comment = match[2]?.includes("@") ? match[2] : above?.[1];
+        if (!comment?.includes("@")) return;
+
+        const annotation = this.parseComment(comment);
+        for (const declarator of match[1].split(",")) {
+          const name = declarator.trim().replace(/\s*\[.*$/, "");
+          if (name) annotations.set(name, annotation);
+        }
+      });
+    }
+
+    return annotations;
+  }
+
+  /**
+   * One control per uniform: float → slider, int → stepped slider,
+   * bool → toggle, vec2 → x/y sliders, vec3/vec4 → color picker
+   */
+  static inputs(uniforms: DeclaredUniform[], sources: string[]): ShaderInput[] {
+    const annotations = this.parse(sources);
+    const inputs: ShaderInput[] = [];
+
+    for (const uniform of uniforms) {
+      const annotation = annotations.get(uniform.name) ?? {};
+      const base = { name: uniform.name, label: annotation.label };
+      const values = annotation.default;
+
+      switch (uniform.type) {
+        case "float":
+          inputs.push({
+            ...base,
+            type: "float",
+            default: values?.[0],
+            min: annotation.min ?? 0,
+            max: annotation.max ?? 1,
+          });
+          break;
+        case "int":
+          inputs.push({
+            ...base,
+            type: "long",
+            default: values?.[0],
+            min: annotation.min ?? 0,
+            max: annotation.max ?? 10,
+          });
+          break;
+        case "bool":
+          inputs.push({
+            ...base,
+            type: "bool",
+            default: values ? values[0] !== 0 : undefined,
+          });
+          break;
+        case "vec2":
+          inputs.push({
+            ...base,
+            type: "point2D",
+            default: values && this.components(values, 2),
+            min: annotation.min,
+            max: annotation.max,
+          });
+          break;
+        case "vec3":
+        case "vec4":
+          inputs.push({
+            ...base,
+            type: "color",
+            default: values && [...this.components(values, 3), values[3] ?? 1],
+          });
+          break;
+      }
+    }
+
+    return inputs;
+  }
+
+  /**
+   * Tags: @range <min> <max>, default <v...> (or @default), @label <text>
+   */
+  private static parseComment(comment: string): UniformAnnotation {
+    const annotation: UniformAnnotation = {};
+    const tokens = comment.trim().split(/\s+/);
+
+    for (let i = 0; i < tokens.length; i++) {
+      const tag = tokens[i].replace(/^@/, "");
+
+      if (tag === "range") {
+        annotation.min = Number(tokens[i + 1]);
+        annotation.max = Number(tokens[i + 2]);
+        i += 2;
+      } else if (tag === "default") {
+        const values: number[] = [];
+        while (i + 1 < tokens.length && this.isNumber(tokens[i + 1])) {
+          values.push(Number(tokens[++i]));
+        }
+        if (values.length > 0) annotation.default = values;
+      } else if (tag === "label") {
+        const words: string[] = [];
+        while (i + 1 < tokens.length && !/^@|^default$/.test(tokens[i + 1])) {
+          words.push(tokens[++i]);
+        }
+        annotation.label = words.join(" ") || undefined;
+      }
+    }
+
+    if (!Number.isFinite(annotation.min) || !Number.isFinite(annotation.max)) {
+      delete annotation.min;
+      delete annotation.max;
+    }
+
+    return annotation;
+  }
+
+  private static isNumber(token: string): boolean {
+    return token.trim() !== "" && Number.isFinite(Number(token));
+  }
+
+  // Pad a single value out to a vector, e.g. "default 0.5" for a vec2
+  private static components(values: number[], count: number): number[] {
+    return Array.from({ length: count }, (_, i) =>
+      values.length === 1 ? values[0] : values[i] ?? 0
+    );
+  }
+}
+